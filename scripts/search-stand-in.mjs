@@ -0,0 +1,42 @@
+// Serves the recorded search responses in fixtures/search so providers can be
+// exercised without reaching the real services. Point the app at it with
+// e.g. BING_BASE_URL=http://localhost:4010 (see README).
+import fs from "fs";
+import http from "http";
+import path from "path";
+
+const FIXTURES_DIR = path.join(process.cwd(), "fixtures", "search");
+const port = Number(process.argv[2] ?? process.env.PORT ?? 4010);
+
+// Request path → fixture, per provider
+const routes = {
+  "/images/search": "bing.html",
+  "/": "duckduckgo.html",
+  "/i.js": "duckduckgo.json",
+  "/customsearch/v1": "google.json",
+  "/search/photos": "unsplash.json",
+  "/v1/search": "pexels.json",
+};
+
+const server = http.createServer((request, response) => {
+  const { pathname } = new URL(request.url ?? "/", "http://localhost");
+  const fixture = routes[pathname];
+  console.log(`${request.method} ${request.url} → ${fixture ?? "404"}`);
+
+  if (!fixture) {
+    response.writeHead(404, { "Content-Type": "text/plain" });
+    response.end("No fixture for this path");
+    return;
+  }
+
+  response.writeHead(200, {
+    "Content-Type": fixture.endsWith(".json")
+      ? "application/json"
+      : "text/html; charset=utf-8",
+  });
+  fs.createReadStream(path.join(FIXTURES_DIR, fixture)).pipe(response);
+});
+
+server.listen(port, () => {
+  console.log(`Search stand-in listening on http://localhost:${port}`);
+});
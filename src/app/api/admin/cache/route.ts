@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { clearCache, getCacheStats } from "@/lib/cache";
+
+// Size and hit rate of the search and image caches shared between jobs
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json(getCacheStats());
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  clearCache();
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getStorageUsage } from "@/lib/jobs/retention";
+
+// Disk used by job files and archives, overall and per user
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json(getStorageUsage());
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { listDestinations } from "@/lib/destinations";
+
+export async function GET() {
+  return NextResponse.json({
+    destinations: listDestinations().map((destination) => ({
+      name: destination.name,
+      label: destination.label,
+      configured: destination.isConfigured(),
+    })),
+  });
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "fs";
-import path from "path";
-import os from "os";
+import { loadOwnedJob } from "@/lib/jobs/access";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportExtension,
+  getJobExportPath,
+} from "@/lib/jobs/export";
+import { streamFile } from "@/lib/fileResponse";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -13,30 +18,52 @@ export async function GET(request: NextRequest) {
 
   // Sanitize fileId to prevent path traversal
   const safeId = fileId.replace(/[^a-zA-Z0-9]/g, "");
-  const zipDir = path.join(os.tmpdir(), "image-downloader-zips");
-  const zipPath = path.join(zipDir, `images-${safeId}.zip`);
+  // Only the user who created the job can download its archive
+  const lookup = await loadOwnedJob(safeId);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
 
-  if (!fs.existsSync(zipPath)) {
+  const { job } = lookup;
+  // A retry rebuilds the archive; it can be fetched again once that's done
+  if (job.status !== "completed") {
     return NextResponse.json(
-      { error: "File not found. It may have expired." },
-      { status: 404 }
+      { error: `Job is ${job.status}` },
+      { status: 409 }
     );
   }
 
-  const zipBuffer = fs.readFileSync(zipPath);
+  const format = job.options.exportFormat ?? "zip";
+  const zipPath = getJobExportPath(job);
 
-  // Clean up after reading
-  try {
-    fs.unlinkSync(zipPath);
-  } catch {
-    // Ignore cleanup errors
+  // Archives can be downloaded any number of times until they expire
+  if (job.expiresAt && new Date(job.expiresAt).getTime() <= Date.now()) {
+    try {
+      fs.rmSync(zipPath, { force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+    return NextResponse.json(
+      { error: "This download has expired." },
+      { status: 410 }
+    );
+  }
+
+  if (!fs.existsSync(zipPath)) {
+    return NextResponse.json(
+      { error: "File not found. It may have expired." },
+      { status: 404 }
+    );
   }
 
-  return new NextResponse(zipBuffer, {
-    headers: {
-      "Content-Type": "application/zip",
-      "Content-Disposition": `attachment; filename="images.zip"`,
-      "Content-Length": zipBuffer.length.toString(),
-    },
+  return streamFile(request, zipPath, {
+    "Content-Type": EXPORT_CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="images${exportExtension(
+      format
+    )}"`,
+    "Cache-Control": "private, no-cache",
   });
 }
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth";
+import { createShare, revokeShare } from "@/lib/shares";
+
+// Creates a share link for a download: { hours, maxDownloads? }. Creating a
+// new link replaces the previous one.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const hours = Number(body?.hours ?? 24);
+  const maxDownloads =
+    body?.maxDownloads === undefined || body?.maxDownloads === null
+      ? undefined
+      : Number(body.maxDownloads);
+
+  if (!Number.isFinite(hours) || hours <= 0) {
+    return NextResponse.json(
+      { error: "hours must be a positive number" },
+      { status: 400 }
+    );
+  }
+  if (
+    maxDownloads !== undefined &&
+    (!Number.isInteger(maxDownloads) || maxDownloads < 1)
+  ) {
+    return NextResponse.json(
+      { error: "maxDownloads must be a positive whole number" },
+      { status: 400 }
+    );
+  }
+
+  const share = await createShare(userId, id, { hours, maxDownloads });
+  if ("error" in share) {
+    return NextResponse.json({ error: share.error }, { status: share.status });
+  }
+  return NextResponse.json(share, { status: 201 });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await revokeShare(userId, id))) {
+    return NextResponse.json({ error: "Share not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inspectInput } from "@/lib/spreadsheet";
+
+// Lists a file's sheets and headers before a job is created
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const file = formData.get("file") as File | null;
+
+  if (!file) {
+    return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+  }
+
+  const sheet = String(formData.get("sheet") ?? "").trim() || undefined;
+
+  try {
+    return NextResponse.json(
+      inspectInput(await file.arrayBuffer(), file.name, sheet)
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Invalid input file" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseUploadedRows } from "@/lib/jobs/options";
+import { validateRows } from "@/lib/validation";
+
+// Reports every problem row before a job is created
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+
+  try {
+    const { rows } = await parseUploadedRows(formData);
+    return NextResponse.json(validateRows(rows));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Invalid input file" },
+      { status: 400 }
+    );
+  }
+}
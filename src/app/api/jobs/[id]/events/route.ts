@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadOwnedJob } from "@/lib/jobs/access";
+import {
+  currentEventId,
+  eventsSince,
+  snapshotEvent,
+  subscribeJob,
+  terminalEvent,
+  type LoggedEvent,
+} from "@/lib/jobs/events";
+import { TERMINAL_EVENTS, type JobEvent } from "@/lib/jobs/eventTypes";
+import { readJob } from "@/lib/jobs/store";
+
+const HEARTBEAT_MS = 15 * 1000;
+// How long browsers wait before reconnecting after a dropped connection
+const RETRY_MS = 3000;
+
+// Streams a job's progress as Server-Sent Events. A new connection starts
+// with a snapshot; a reconnect sending Last-Event-ID only gets the events it
+// missed, or a fresh snapshot if they are no longer available. A finished
+// job's stream ends after its terminal event.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadOwnedJob(id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const lastEventId = request.headers.get("last-event-id");
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (text: string) => {
+        controller.enqueue(encoder.encode(text));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        clearInterval(heartbeat);
+        controller.close();
+      };
+
+      const send = (event: JobEvent, eventId?: string) => {
+        if (closed) return;
+        write(
+          `${eventId ? `id: ${eventId}\n` : ""}event: ${
+            event.type
+          }\ndata: ${JSON.stringify(event)}\n\n`
+        );
+        if (TERMINAL_EVENTS.includes(event.type)) {
+          close();
+        }
+      };
+
+      const sendLogged = (logged: LoggedEvent) => send(logged.event, logged.id);
+
+      write(`retry: ${RETRY_MS}\n\n`);
+
+      // Nothing can be published between subscribing and catching up, so
+      // no event is missed or sent twice. The job is read again here because
+      // it may have moved on since the ownership check.
+      unsubscribe = subscribeJob(id, sendLogged);
+      const missed = lastEventId ? eventsSince(id, lastEventId) : null;
+      missed?.forEach(sendLogged);
+      if (!closed) {
+        const job = readJob(id) ?? lookup.job;
+        const eventId = currentEventId(id);
+        if (!missed) send(snapshotEvent(job), eventId);
+        // Catching up never leaves a finished job's stream open
+        const terminal = terminalEvent(job);
+        if (terminal) send(terminal, eventId);
+      }
+
+      if (!closed) {
+        heartbeat = setInterval(
+          () => send({ type: "heartbeat" }),
+          HEARTBEAT_MS
+        );
+        request.signal.addEventListener("abort", close);
+      }
+    },
+    cancel() {
+      unsubscribe?.();
+      clearInterval(heartbeat);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadOwnedJob } from "@/lib/jobs/access";
+import { buildFailureReport } from "@/lib/jobs/manifest";
+
+// Failed rows as an Excel sheet that can be corrected and uploaded again
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadOwnedJob(id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+
+  const report = buildFailureReport(job);
+  return new NextResponse(new Uint8Array(report), {
+    headers: {
+      "Content-Type":
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename="failed-rows-${job.id}.xlsx"`,
+      "Content-Length": report.length.toString(),
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import { loadOwnedJob } from "@/lib/jobs/access";
+import { rowImagePath } from "@/lib/jobs/images";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif",
+  ".heic": "image/heic",
+  ".svg": "image/svg+xml",
+  ".tiff": "image/tiff",
+};
+
+// Serves a saved image so the review screen can show it
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  const { id, path: segments } = await params;
+  const lookup = await loadOwnedJob(id);
+  const filePath =
+    "job" in lookup ? rowImagePath(lookup.job, segments.join("/")) : null;
+
+  if (!filePath || !fs.existsSync(filePath)) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  return new NextResponse(fs.readFileSync(filePath), {
+    headers: {
+      "Content-Type": CONTENT_TYPES[extension] ?? "application/octet-stream",
+      "Cache-Control": "no-cache",
+      // SVGs are served as documents otherwise
+      "Content-Security-Policy":
+        "default-src 'none'; style-src 'unsafe-inline'",
+    },
+  });
+}
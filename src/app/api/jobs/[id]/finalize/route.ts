@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadOwnedJob } from "@/lib/jobs/access";
+import { finishReview } from "@/lib/jobs/review";
+
+// Ends the review step and builds the archive
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadOwnedJob(id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+
+  if (job.status !== "review") {
+    return NextResponse.json(
+      { error: "Job is not awaiting review" },
+      { status: 409 }
+    );
+  }
+
+  finishReview(job);
+  return NextResponse.json({ id: job.id, status: job.status });
+}
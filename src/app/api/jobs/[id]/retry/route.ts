@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadOwnedJob } from "@/lib/jobs/access";
+import { getProvider } from "@/lib/search";
+import { retryFailedRows } from "@/lib/jobs/retry";
+
+// Re-processes only the failed rows of a finished job. The optional JSON body
+// may switch providers ({ providers: ["google"] }) or change the query of
+// individual rows ({ queries: { "<row id>": "new query" } }).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadOwnedJob(id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+
+  if (job.status !== "completed") {
+    return NextResponse.json(
+      { error: "Only finished jobs can be retried" },
+      { status: 409 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const providers = Array.isArray(body?.providers)
+    ? body.providers.map(String).filter((name: string) => getProvider(name))
+    : undefined;
+  const queries: Record<string, string> = {};
+  if (body?.queries && typeof body.queries === "object") {
+    for (const [rowId, query] of Object.entries(body.queries)) {
+      if (typeof query === "string") queries[rowId] = query;
+    }
+  }
+
+  const retried = retryFailedRows(job, { providers, queries });
+  if (retried === 0) {
+    return NextResponse.json(
+      { error: "No failed rows to retry" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ id: job.id, status: job.status, retried });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadOwnedJob } from "@/lib/jobs/access";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadOwnedJob(id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+
+  return NextResponse.json({
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    items: job.progress,
+    downloadUrl: job.downloadUrl,
+    exportLocation: job.exportLocation,
+    expiresAt: job.expiresAt,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadReviewRow } from "@/lib/jobs/review";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; row: string }> }
+) {
+  const { id, row } = await params;
+  const lookup = await loadReviewRow(id, row);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const item = lookup.job.progress[lookup.index];
+  return NextResponse.json({
+    images: item.images ?? [],
+    candidates: item.candidates ?? [],
+  });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  loadReviewRow,
+  replaceRowImageFromUpload,
+  replaceRowImageFromUrl,
+} from "@/lib/jobs/review";
+
+// Replaces a row's image with a candidate or pasted URL (JSON body) or an
+// uploaded file (multipart form)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; row: string }> }
+) {
+  const { id, row } = await params;
+  const lookup = await loadReviewRow(id, row);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job, index } = lookup;
+  let item;
+  try {
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file") as File | null;
+      if (!file) {
+        return NextResponse.json(
+          { error: "No file uploaded" },
+          { status: 400 }
+        );
+      }
+      item = await replaceRowImageFromUpload(
+        job,
+        index,
+        Buffer.from(await file.arrayBuffer()),
+        file.name,
+        Number(formData.get("slot")) || 1
+      );
+    } else {
+      const body = await request.json();
+      if (!body?.url) {
+        return NextResponse.json({ error: "Missing url" }, { status: 400 });
+      }
+      item = await replaceRowImageFromUrl(
+        job,
+        index,
+        String(body.url),
+        Number(body.slot) || 1
+      );
+    }
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Failed to replace image" },
+      { status: 422 }
+    );
+  }
+
+  if (!item) {
+    return NextResponse.json(
+      { error: "Job is not awaiting review" },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(item);
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadReviewRow, searchRowAgain } from "@/lib/jobs/review";
+
+// Re-runs the search for one row, e.g. with a better query
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; row: string }> }
+) {
+  const { id, row } = await params;
+  const lookup = await loadReviewRow(id, row);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const query = String(body?.query ?? "").trim();
+  if (!query) {
+    return NextResponse.json({ error: "Missing query" }, { status: 400 });
+  }
+
+  const providers = Array.isArray(body.providers)
+    ? body.providers.map(String)
+    : undefined;
+  let candidates;
+  try {
+    candidates = await searchRowAgain(
+      lookup.job,
+      lookup.index,
+      query,
+      providers
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Search failed" },
+      { status: 502 }
+    );
+  }
+
+  if (!candidates) {
+    return NextResponse.json(
+      { error: "Job is not awaiting review" },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ candidates });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth";
+import {
+  parseInvalidRowHandling,
+  parseJobOptions,
+  parseUploadedRows,
+} from "@/lib/jobs/options";
+import { submitJob } from "@/lib/jobs/submit";
+
+export async function POST(request: NextRequest) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Sign in to start a job" },
+      { status: 401 }
+    );
+  }
+
+  const formData = await request.formData();
+
+  let file;
+  let rows;
+  let options;
+  try {
+    ({ file, rows } = await parseUploadedRows(formData));
+    options = parseJobOptions(formData);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Invalid input file" },
+      { status: 400 }
+    );
+  }
+
+  const result = submitJob(
+    userId,
+    file.name,
+    rows,
+    options,
+    parseInvalidRowHandling(formData)
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error, report: result.report },
+      { status: result.status }
+    );
+  }
+
+  const { job } = result;
+  return NextResponse.json({ id: job.id, status: job.status }, { status: 201 });
+}
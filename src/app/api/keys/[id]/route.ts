@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeApiKey } from "@/lib/apiKeys";
+import { getUserId } from "@/lib/auth";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await revokeApiKey(userId, id))) {
+    return NextResponse.json({ error: "API key not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createApiKey, listApiKeys } from "@/lib/apiKeys";
+import { getUserId } from "@/lib/auth";
+
+// API keys are managed from a signed-in session, never with another key
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  return NextResponse.json({ keys: await listApiKeys(userId) });
+}
+
+// Creates a key: { name }. The response is the only time the key is shown.
+export async function POST(request: NextRequest) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > 100) {
+    return NextResponse.json(
+      { error: "name must be 1-100 characters" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(await createApiKey(userId, name), { status: 201 });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_PROVIDERS, listProviders } from "@/lib/search";
+
+export async function GET() {
+  return NextResponse.json({
+    defaults: DEFAULT_PROVIDERS,
+    providers: listProviders().map((provider) => ({
+      name: provider.name,
+      label: provider.label,
+      configured: provider.isConfigured(),
+    })),
+  });
+}
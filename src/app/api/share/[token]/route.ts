@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import { streamFile } from "@/lib/fileResponse";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportExtension,
+  getJobExportPath,
+} from "@/lib/jobs/export";
+import { readJob } from "@/lib/jobs/store";
+import { redeemShare } from "@/lib/shares";
+
+// Public download of a shared archive; no account needed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+
+  const share = await redeemShare(token, { count: false });
+  const job = share ? readJob(share.jobId) : null;
+  const archivePath = job ? getJobExportPath(job) : null;
+
+  // A retry rebuilds the archive; the link works again once that's done
+  if (job && job.status !== "completed") {
+    return NextResponse.json(
+      { error: `This archive is unavailable while the job is ${job.status}.` },
+      { status: 409 }
+    );
+  }
+
+  // Resumed downloads (a Range past the start) don't count again
+  const range = request.headers.get("range");
+  const counted =
+    !range || /^bytes=0-/.test(range)
+      ? await redeemShare(token, { count: true })
+      : share;
+
+  if (!counted || !job || !archivePath || !fs.existsSync(archivePath)) {
+    return NextResponse.json(
+      { error: "This link has expired or was revoked." },
+      { status: 410 }
+    );
+  }
+
+  const format = job.options.exportFormat ?? "zip";
+  return streamFile(request, archivePath, {
+    "Content-Type": EXPORT_CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="images${exportExtension(
+      format
+    )}"`,
+    "Cache-Control": "private, no-store",
+  });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth";
+import { listShares } from "@/lib/shares";
+
+// The signed-in user's share links that can still be used
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  return NextResponse.json({ shares: await listShares(userId) });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadApiJob } from "@/lib/publicApi";
+import { listDeliveries } from "@/lib/webhooks";
+
+// Webhook deliveries for the job, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadApiJob(request, id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+  return NextResponse.json({
+    deliveries: await listDeliveries(job.ownerId!, { jobId: job.id }),
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { finishReview } from "@/lib/jobs/review";
+import { jobSummary, loadApiJob } from "@/lib/publicApi";
+
+// Ends the review step of a job created with `review: true`, keeping the
+// images as they are, and builds the export
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadApiJob(request, id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+  if (job.status !== "review") {
+    return NextResponse.json(
+      { error: "Job is not awaiting review" },
+      { status: 409 }
+    );
+  }
+
+  finishReview(job);
+  return NextResponse.json(jobSummary(job), { status: 202 });
+}
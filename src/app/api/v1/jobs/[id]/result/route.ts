@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import { streamFile } from "@/lib/fileResponse";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportExtension,
+  getJobExportPath,
+} from "@/lib/jobs/export";
+import { loadApiJob } from "@/lib/publicApi";
+
+// The finished export; supports Range requests like the web download
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadApiJob(request, id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { job } = lookup;
+  if (job.status !== "completed") {
+    return NextResponse.json(
+      { error: `Job is ${job.status}` },
+      { status: 409 }
+    );
+  }
+  if (!job.downloadUrl) {
+    return NextResponse.json(
+      {
+        error: "The export was delivered to a destination",
+        exportLocation: job.exportLocation,
+      },
+      { status: 404 }
+    );
+  }
+  if (job.expiresAt && new Date(job.expiresAt).getTime() <= Date.now()) {
+    return NextResponse.json(
+      { error: "This result has expired." },
+      { status: 410 }
+    );
+  }
+
+  const format = job.options.exportFormat ?? "zip";
+  const exportPath = getJobExportPath(job);
+  if (!fs.existsSync(exportPath)) {
+    return NextResponse.json(
+      { error: "File not found. It may have expired." },
+      { status: 404 }
+    );
+  }
+
+  return streamFile(request, exportPath, {
+    "Content-Type": EXPORT_CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="images${exportExtension(
+      format
+    )}"`,
+    "Cache-Control": "private, no-cache",
+  });
+}
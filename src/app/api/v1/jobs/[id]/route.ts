@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { jobSummary, loadApiJob } from "@/lib/publicApi";
+
+// Job status with per-status row counts, for polling
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadApiJob(request, id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  return NextResponse.json(jobSummary(lookup.job));
+}
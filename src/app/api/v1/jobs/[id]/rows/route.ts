@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProgressItem } from "@/lib/jobs/types";
+import { loadApiJob } from "@/lib/publicApi";
+
+const ROW_STATUSES: ProgressItem["status"][] = [
+  "pending",
+  "downloading",
+  "success",
+  "failed",
+];
+const MAX_LIMIT = 500;
+
+// Row outcomes, paged with ?offset=&limit= and filtered with ?status=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lookup = await loadApiJob(request, id);
+  if ("error" in lookup) {
+    return NextResponse.json(
+      { error: lookup.error },
+      { status: lookup.status }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status");
+  if (status && !ROW_STATUSES.includes(status as ProgressItem["status"])) {
+    return NextResponse.json(
+      { error: `status must be one of ${ROW_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const offset = parseInt(searchParams.get("offset") ?? "", 10);
+  const limit = parseInt(searchParams.get("limit") ?? "", 10);
+  const start = Number.isFinite(offset) && offset > 0 ? offset : 0;
+  const count =
+    Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : 100;
+
+  const rows = lookup.job.progress
+    .filter((item) => !status || item.status === status)
+    .map(({ candidates, ...item }) => ({
+      ...item,
+      candidates: candidates?.length,
+    }));
+
+  return NextResponse.json({
+    total: rows.length,
+    offset: start,
+    limit: count,
+    rows: rows.slice(start, start + count),
+  });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/apiKeys";
+import { submitJob } from "@/lib/jobs/submit";
+import { jobSummary, parseApiJobRequest } from "@/lib/publicApi";
+
+// Creates a job from JSON rows or an uploaded file
+export async function POST(request: NextRequest) {
+  const userId = await authenticateApiKey(request);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Missing or invalid API key" },
+      { status: 401 }
+    );
+  }
+
+  let input;
+  try {
+    input = await parseApiJobRequest(request);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  const result = submitJob(
+    userId,
+    input.fileName,
+    input.rows,
+    input.options,
+    input.onInvalid
+  );
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error, report: result.report },
+      { status: result.status }
+    );
+  }
+
+  return NextResponse.json(jobSummary(result.job), {
+    status: 201,
+    headers: { Location: `/api/v1/jobs/${result.job.id}` },
+  });
+}
@@ -0,0 +1,426 @@
+import { NextResponse } from "next/server";
+import { EXPORT_FORMATS } from "@/lib/jobs/export";
+import { ERROR_CATEGORIES } from "@/lib/retry";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+});
+
+const jobIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+const spec = {
+  openapi: "3.1.0",
+  info: {
+    title: "Bulk Image Downloader API",
+    version: "1.0.0",
+    description:
+      "Create image download jobs from scripts. Authenticate with an API key from /settings/api-keys.",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ apiKey: [] }],
+  paths: {
+    "/jobs": {
+      post: {
+        summary: "Create a job",
+        description:
+          "Send rows as JSON, or upload a spreadsheet as multipart/form-data with the same fields as the web form (file, columnMap, sheet, onInvalid and the job options).",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/JobRequest" },
+            },
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                required: ["file"],
+                properties: {
+                  file: { type: "string", format: "binary" },
+                  columnMap: {
+                    type: "string",
+                    description: "JSON object of source header to row field",
+                  },
+                  sheet: { type: "string" },
+                  onInvalid: { $ref: "#/components/schemas/OnInvalid" },
+                },
+                additionalProperties: { type: "string" },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Job queued",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Job" },
+              },
+            },
+          },
+          "400": errorResponse("Malformed input"),
+          "401": errorResponse("Missing or invalid API key"),
+          "422": errorResponse("Rows failed validation; see report"),
+          "507": errorResponse("Storage quota exceeded"),
+        },
+      },
+    },
+    "/jobs/{id}": {
+      get: {
+        summary: "Get job status",
+        parameters: [jobIdParameter],
+        responses: {
+          "200": {
+            description: "Job status",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Job" },
+              },
+            },
+          },
+          "401": errorResponse("Missing or invalid API key"),
+          "404": errorResponse("Job not found"),
+        },
+      },
+    },
+    "/jobs/{id}/finalize": {
+      post: {
+        summary: "Finish the review step",
+        description:
+          "Jobs created with review: true, and jobs with rows whose image looks like another row's, stop in the review status once every row is done. This keeps the images as they are and builds the export.",
+        parameters: [jobIdParameter],
+        responses: {
+          "202": {
+            description: "Job queued to build its export",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Job" },
+              },
+            },
+          },
+          "401": errorResponse("Missing or invalid API key"),
+          "404": errorResponse("Job not found"),
+          "409": errorResponse("Job is not awaiting review"),
+        },
+      },
+    },
+    "/jobs/{id}/rows": {
+      get: {
+        summary: "List row outcomes",
+        parameters: [
+          jobIdParameter,
+          {
+            name: "status",
+            in: "query",
+            schema: { $ref: "#/components/schemas/RowStatus" },
+          },
+          {
+            name: "offset",
+            in: "query",
+            schema: { type: "integer", minimum: 0, default: 0 },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A page of rows",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    total: { type: "integer" },
+                    offset: { type: "integer" },
+                    limit: { type: "integer" },
+                    rows: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Row" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Unknown status filter"),
+          "401": errorResponse("Missing or invalid API key"),
+          "404": errorResponse("Job not found"),
+        },
+      },
+    },
+    "/jobs/{id}/deliveries": {
+      get: {
+        summary: "List webhook deliveries for a job",
+        parameters: [jobIdParameter],
+        responses: {
+          "200": {
+            description: "Deliveries, newest first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    deliveries: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Delivery" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "401": errorResponse("Missing or invalid API key"),
+          "404": errorResponse("Job not found"),
+        },
+      },
+    },
+    "/jobs/{id}/result": {
+      get: {
+        summary: "Download the export",
+        description: "Supports Range requests to resume a download.",
+        parameters: [jobIdParameter],
+        responses: {
+          "200": {
+            description: "The archive or workbook",
+            content: {
+              "application/octet-stream": {
+                schema: { type: "string", format: "binary" },
+              },
+            },
+          },
+          "206": { description: "Part of the file" },
+          "401": errorResponse("Missing or invalid API key"),
+          "404": errorResponse(
+            "Job not found, or the export went to a destination"
+          ),
+          "409": errorResponse("Job has not completed"),
+          "410": errorResponse("Result has expired"),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+      OnInvalid: {
+        type: "string",
+        enum: ["reject", "skip", "proceed"],
+        default: "reject",
+      },
+      RowStatus: {
+        type: "string",
+        enum: ["pending", "downloading", "success", "failed"],
+      },
+      ErrorCategory: {
+        type: "string",
+        enum: ERROR_CATEGORIES,
+        description:
+          "rate_limited, timeout and network failures are transient and worth retrying",
+      },
+      InputRow: {
+        type: "object",
+        required: ["id", "image_name"],
+        properties: {
+          id: { type: ["string", "number"] },
+          image_name: { type: "string" },
+          image_url: { type: "string" },
+          search_query: { type: "string" },
+          exclude_terms: { type: "string" },
+          site: { type: "string" },
+          provider: { type: "string" },
+          group: { type: "string" },
+        },
+      },
+      JobOptions: {
+        type: "object",
+        properties: {
+          concurrency: { type: "integer", minimum: 1 },
+          providers: { type: "array", items: { type: "string" } },
+          quality: { type: "object" },
+          processing: { type: "object" },
+          imagesPerRow: { type: "integer", minimum: 1 },
+          imageLayout: { type: "string", enum: ["suffix", "folder"] },
+          ranking: { type: "boolean" },
+          preferredDomains: { type: "array", items: { type: "string" } },
+          review: {
+            type: "boolean",
+            description:
+              "Pauses in the review status for changes in the web app; finish with POST /jobs/{id}/finalize",
+          },
+          annotatedInput: { type: "boolean" },
+          exportFormat: { type: "string", enum: EXPORT_FORMATS },
+          destination: { type: "string" },
+          webhookUrl: {
+            type: "string",
+            format: "uri",
+            description: "Notified when the job completes or fails",
+          },
+          webhookFailureThreshold: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description:
+              "Also notify webhookUrl once this percentage of rows has failed",
+          },
+        },
+      },
+      JobRequest: {
+        type: "object",
+        required: ["rows"],
+        properties: {
+          fileName: { type: "string" },
+          rows: {
+            type: "array",
+            items: { $ref: "#/components/schemas/InputRow" },
+          },
+          columnMap: {
+            type: "object",
+            additionalProperties: { type: "string" },
+          },
+          onInvalid: { $ref: "#/components/schemas/OnInvalid" },
+          options: { $ref: "#/components/schemas/JobOptions" },
+        },
+      },
+      Job: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          status: {
+            type: "string",
+            enum: ["queued", "running", "review", "completed", "failed"],
+          },
+          fileName: { type: "string" },
+          rows: {
+            type: "object",
+            properties: {
+              total: { type: "integer" },
+              pending: { type: "integer" },
+              downloading: { type: "integer" },
+              success: { type: "integer" },
+              failed: { type: "integer" },
+              needsReview: {
+                type: "integer",
+                description:
+                  "Successful rows whose image looks like another row's; the job waits in the review status until they are checked",
+              },
+              transientFailures: {
+                type: "integer",
+                description:
+                  "Failed rows that may succeed on retry (rate limits, timeouts, network errors)",
+              },
+            },
+          },
+          failures: {
+            type: "object",
+            description:
+              'Failed rows per error category; "other" covers quality rejections',
+            additionalProperties: { type: "integer" },
+          },
+          resultUrl: { type: "string" },
+          exportLocation: { type: "string" },
+          expiresAt: { type: "string", format: "date-time" },
+          duplicateImages: {
+            type: "integer",
+            description:
+              "Images identical to another image in the export; see duplicate_of in the manifest",
+          },
+          error: { type: "string" },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      Delivery: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          jobId: { type: "string" },
+          url: { type: "string" },
+          event: {
+            type: "string",
+            enum: [
+              "job.completed",
+              "job.review",
+              "job.failed",
+              "job.failure_threshold",
+            ],
+          },
+          status: { type: "string", enum: ["pending", "delivered", "failed"] },
+          attempts: { type: "integer" },
+          responseStatus: { type: ["integer", "null"] },
+          error: { type: ["string", "null"] },
+          nextAttemptAt: { type: ["string", "null"], format: "date-time" },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      Row: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          image_name: { type: "string" },
+          status: { $ref: "#/components/schemas/RowStatus" },
+          error: { type: "string" },
+          errorCategory: { $ref: "#/components/schemas/ErrorCategory" },
+          provider: { type: "string" },
+          images: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                fileName: { type: "string" },
+                url: { type: "string" },
+                width: { type: "integer" },
+                height: { type: "integer" },
+                bytes: { type: "integer" },
+                sha256: { type: "string" },
+                phash: {
+                  type: "string",
+                  description: "64-bit perceptual hash as hex",
+                },
+              },
+            },
+          },
+          candidates: {
+            type: "integer",
+            description: "Search results kept for review",
+          },
+          similar: {
+            type: "array",
+            description: "Images of other rows that look like this row's",
+            items: {
+              type: "object",
+              properties: {
+                fileName: { type: "string" },
+                index: { type: "integer" },
+                rowId: { type: "string" },
+                otherFileName: { type: "string" },
+                distance: { type: "integer" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export function GET() {
+  return NextResponse.json(spec);
+}
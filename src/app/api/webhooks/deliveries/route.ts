@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth";
+import { listDeliveries } from "@/lib/webhooks";
+
+// Recent webhook deliveries, optionally for one job with ?jobId=
+export async function GET(request: NextRequest) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  const jobId = new URL(request.url).searchParams.get("jobId") ?? undefined;
+  return NextResponse.json({
+    deliveries: await listDeliveries(userId, { jobId }),
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth";
+import { createWebhook, listWebhooks, parseWebhookUrl } from "@/lib/webhooks";
+
+// The signed-in user's account webhooks, which hear about all of their jobs
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  return NextResponse.json({ webhooks: await listWebhooks(userId) });
+}
+
+// Registers an account webhook: { url, failureThreshold? }
+export async function POST(request: NextRequest) {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const url = parseWebhookUrl(body?.url);
+  if (!url) {
+    return NextResponse.json(
+      { error: "url must be an http or https URL" },
+      { status: 400 }
+    );
+  }
+
+  const threshold =
+    body?.failureThreshold === undefined || body?.failureThreshold === null
+      ? undefined
+      : Number(body.failureThreshold);
+  if (
+    threshold !== undefined &&
+    (!Number.isInteger(threshold) || threshold < 1 || threshold > 100)
+  ) {
+    return NextResponse.json(
+      { error: "failureThreshold must be a percentage from 1 to 100" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(await createWebhook(userId, url, threshold), {
+    status: 201,
+  });
+}
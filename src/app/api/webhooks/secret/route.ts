@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth";
+import { getWebhookSecret, rotateWebhookSecret } from "@/lib/webhooks";
+
+// The secret that signs the user's webhook payloads
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  return NextResponse.json({ secret: await getWebhookSecret(userId) });
+}
+
+// Replaces the secret; deliveries are signed with the new one from then on
+export async function POST() {
+  const userId = await getUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  return NextResponse.json({ secret: await rotateWebhookSecret(userId) });
+}
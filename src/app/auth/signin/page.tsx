@@ -0,0 +1,68 @@
+import { redirect } from "next/navigation";
+import { auth, signIn, signInProviders } from "@/lib/auth";
+
+// Only same-site paths, so the page can't be used as an open redirect
+function safeCallbackUrl(url?: string): string {
+  return url && url.startsWith("/") && !url.startsWith("//") ? url : "/";
+}
+
+export default async function SignInPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ callbackUrl?: string; error?: string }>;
+}) {
+  const { callbackUrl, error } = await searchParams;
+  const redirectTo = safeCallbackUrl(callbackUrl);
+
+  const session = await auth();
+  if (session?.user) {
+    redirect(redirectTo);
+  }
+
+  const providers = signInProviders.filter((provider) => provider.configured);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-2xl border border-white/20">
+        <h1 className="text-2xl font-bold text-white text-center mb-2">
+          Sign in
+        </h1>
+        <p className="text-purple-200 text-center text-sm mb-8">
+          Your jobs and downloads are kept with your account
+        </p>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+            <p className="text-red-300 text-sm">
+              Sign-in failed. Please try again.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {providers.map((provider) => (
+            <form
+              key={provider.id}
+              action={async () => {
+                "use server";
+                await signIn(provider.id, { redirectTo });
+              }}
+            >
+              <button
+                type="submit"
+                className="w-full py-3 px-4 rounded-xl font-semibold bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white shadow-lg transition-all duration-300"
+              >
+                Continue with {provider.label}
+              </button>
+            </form>
+          ))}
+          {providers.length === 0 && (
+            <p className="text-purple-200 text-center text-sm">
+              No sign-in providers are configured.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface ApiKeysManagerProps {
+  keys: ApiKeyInfo[];
+}
+
+const controlClassName =
+  "bg-purple-500/30 text-white text-sm rounded px-2 py-1 border border-purple-500/30";
+
+export default function ApiKeysManager({ keys }: ApiKeysManagerProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      router.refresh();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createKey = async () => {
+    const data = await request("/api/keys", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (data?.key) {
+      setCreatedKey(data.key);
+      setName("");
+    }
+  };
+
+  const revokeKey = (id: string) => {
+    setCreatedKey(null);
+    request(`/api/keys/${id}`, { method: "DELETE" });
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-purple-200">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          placeholder="Key name, e.g. nightly import"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={busy}
+          className={`flex-1 min-w-0 ${controlClassName}`}
+        />
+        <button
+          onClick={createKey}
+          disabled={busy || !name.trim()}
+          className="px-3 py-1 rounded bg-purple-600/50 hover:bg-purple-600/80 text-white border border-purple-500/30 disabled:opacity-50"
+        >
+          Create key
+        </button>
+      </div>
+
+      {createdKey && (
+        <div className="p-3 rounded-lg border bg-green-500/10 border-green-500/30 space-y-2">
+          <p className="text-green-300">
+            Copy this key now. It won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={createdKey}
+              onFocus={(e) => e.target.select()}
+              className={`flex-1 min-w-0 font-mono ${controlClassName}`}
+            />
+            <button
+              onClick={() => navigator.clipboard.writeText(createdKey)}
+              className="hover:text-white"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      {keys.length === 0 ? (
+        <p className="text-center">You have no API keys yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {keys.map((key) => (
+            <div
+              key={key.id}
+              className="p-3 rounded-lg border bg-white/5 border-white/10 flex items-center justify-between gap-4"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-white truncate">{key.name}</p>
+                <p className="text-xs text-purple-300">
+                  <span className="font-mono">{key.prefix}…</span> · created{" "}
+                  {new Date(key.createdAt).toLocaleString()} ·{" "}
+                  {key.lastUsedAt
+                    ? `last used ${new Date(key.lastUsedAt).toLocaleString()}`
+                    : "never used"}
+                </p>
+              </div>
+              <button
+                onClick={() => revokeKey(key.id)}
+                disabled={busy}
+                className="text-red-300 hover:text-red-200 disabled:opacity-50"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+export interface InputSummary {
+  format: string;
+  sheets: string[];
+  sheet?: string;
+  headers: string[];
+  suggestedMap: Record<string, string>;
+  rowCount: number;
+}
+
+interface ColumnMappingProps {
+  summary: InputSummary;
+  // Row field → source header
+  mapping: Record<string, string>;
+  onMappingChange: (mapping: Record<string, string>) => void;
+  onSheetChange: (sheet: string) => void;
+  disabled?: boolean;
+}
+
+const FIELDS = [
+  { name: "id", label: "ID", required: true },
+  { name: "image_name", label: "Image name", required: true },
+  { name: "image_url", label: "Image URL" },
+  { name: "search_query", label: "Search query" },
+  { name: "exclude_terms", label: "Exclude terms" },
+  { name: "site", label: "Site" },
+  { name: "provider", label: "Provider" },
+];
+
+export default function ColumnMapping({
+  summary,
+  mapping,
+  onMappingChange,
+  onSheetChange,
+  disabled = false,
+}: ColumnMappingProps) {
+  const selectClassName =
+    "bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30 w-full";
+
+  return (
+    <div className="mt-4 p-4 bg-white/5 rounded-lg border border-white/10 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-purple-200">
+        <span>
+          <span className="font-semibold text-white">
+            {summary.rowCount} rows
+          </span>{" "}
+          ({summary.format.toUpperCase()})
+        </span>
+        {summary.sheets.length > 1 && (
+          <label className="flex items-center gap-2">
+            <span className="font-semibold text-white">Sheet:</span>
+            <select
+              value={summary.sheet}
+              onChange={(e) => onSheetChange(e.target.value)}
+              disabled={disabled}
+              className="bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+            >
+              {summary.sheets.map((sheet) => (
+                <option key={sheet} value={sheet} className="bg-slate-900">
+                  {sheet}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-purple-200">
+        {FIELDS.map((field) => (
+          <label key={field.name} className="flex items-center gap-2">
+            <span className="w-32 shrink-0">
+              {field.label}
+              {field.required && <span className="text-pink-400">*</span>}
+            </span>
+            <select
+              value={mapping[field.name] ?? ""}
+              onChange={(e) => {
+                const next = { ...mapping };
+                if (e.target.value) {
+                  next[field.name] = e.target.value;
+                } else {
+                  delete next[field.name];
+                }
+                onMappingChange(next);
+              }}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="" className="bg-slate-900">
+                (not used)
+              </option>
+              {summary.headers.map((header) => (
+                <option key={header} value={header} className="bg-slate-900">
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+export interface ProcessingOptions {
+  width?: number;
+  height?: number;
+  fit?: "contain" | "cover" | "inside" | "fill";
+  format?: "original" | "jpeg" | "png" | "webp" | "avif";
+  quality?: number;
+  background?: string;
+  stripMetadata?: boolean;
+}
+
+interface ProcessingSettingsProps {
+  // null while post-processing is switched off
+  value: ProcessingOptions | null;
+  onChange: (value: ProcessingOptions | null) => void;
+  disabled?: boolean;
+}
+
+const STOREFRONT_PRESET: ProcessingOptions = {
+  width: 1000,
+  height: 1000,
+  fit: "contain",
+  format: "webp",
+  quality: 85,
+  background: "#ffffff",
+  stripMetadata: true,
+};
+
+function toInt(value: string): number | undefined {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+export default function ProcessingSettings({
+  value,
+  onChange,
+  disabled = false,
+}: ProcessingSettingsProps) {
+  const inputClassName =
+    "bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30";
+
+  return (
+    <div className="w-full space-y-3 text-sm text-purple-200">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value !== null}
+            onChange={(e) =>
+              onChange(e.target.checked ? { stripMetadata: true } : null)
+            }
+            disabled={disabled}
+          />
+          <span className="font-semibold text-white">Post-process images</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange(STOREFRONT_PRESET)}
+          disabled={disabled}
+          className="px-2 py-1 rounded bg-purple-600/50 hover:bg-purple-600/80 text-white text-xs border border-purple-500/30"
+        >
+          Square 1000×1000 WebP on white
+        </button>
+      </div>
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-semibold text-white">Size:</span>
+          <input
+            type="number"
+            min="1"
+            placeholder="width"
+            value={value.width ?? ""}
+            onChange={(e) =>
+              onChange({ ...value, width: toInt(e.target.value) })
+            }
+            disabled={disabled}
+            className={`w-20 ${inputClassName}`}
+          />
+          ×
+          <input
+            type="number"
+            min="1"
+            placeholder="height"
+            value={value.height ?? ""}
+            onChange={(e) =>
+              onChange({ ...value, height: toInt(e.target.value) })
+            }
+            disabled={disabled}
+            className={`w-20 ${inputClassName}`}
+          />
+          <select
+            value={value.fit ?? "contain"}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                fit: e.target.value as ProcessingOptions["fit"],
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="contain" className="bg-slate-900">
+              Fit and pad
+            </option>
+            <option value="cover" className="bg-slate-900">
+              Fill and crop
+            </option>
+            <option value="inside" className="bg-slate-900">
+              Shrink only
+            </option>
+            <option value="fill" className="bg-slate-900">
+              Stretch
+            </option>
+          </select>
+          <span className="font-semibold text-white ml-2">Format:</span>
+          <select
+            value={value.format ?? "original"}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                format: e.target.value as ProcessingOptions["format"],
+              })
+            }
+            disabled={disabled}
+            className={inputClassName}
+          >
+            {["original", "jpeg", "png", "webp", "avif"].map((format) => (
+              <option key={format} value={format} className="bg-slate-900">
+                {format === "original" ? "Keep original" : format.toUpperCase()}
+              </option>
+            ))}
+          </select>
+          <span className="font-semibold text-white ml-2">Quality:</span>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            placeholder="80"
+            value={value.quality ?? ""}
+            onChange={(e) =>
+              onChange({ ...value, quality: toInt(e.target.value) })
+            }
+            disabled={disabled}
+            className={`w-16 ${inputClassName}`}
+          />
+          <label className="flex items-center gap-2 ml-2">
+            <input
+              type="checkbox"
+              checked={!!value.background}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  background: e.target.checked ? "#ffffff" : undefined,
+                })
+              }
+              disabled={disabled}
+            />
+            Background
+            {value.background && (
+              <input
+                type="color"
+                value={value.background}
+                onChange={(e) =>
+                  onChange({ ...value, background: e.target.value })
+                }
+                disabled={disabled}
+                className="h-6 w-8 bg-transparent"
+              />
+            )}
+          </label>
+          <label className="flex items-center gap-2 ml-2">
+            <input
+              type="checkbox"
+              checked={value.stripMetadata !== false}
+              onChange={(e) =>
+                onChange({ ...value, stripMetadata: e.target.checked })
+              }
+              disabled={disabled}
+            />
+            Strip EXIF
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+export interface QualityConstraints {
+  minWidth?: number;
+  minHeight?: number;
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+  formats?: string[];
+  maxBytes?: number;
+  allowAnimated?: boolean;
+}
+
+interface QualitySettingsProps {
+  value: QualityConstraints;
+  onChange: (value: QualityConstraints) => void;
+  disabled?: boolean;
+}
+
+const FORMATS = ["jpeg", "png", "webp", "gif", "avif", "bmp"];
+
+function toNumber(value: string): number | undefined {
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+export default function QualitySettings({
+  value,
+  onChange,
+  disabled = false,
+}: QualitySettingsProps) {
+  const inputClassName =
+    "w-20 bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30";
+
+  const numberInput = (
+    key: "minWidth" | "minHeight" | "minAspectRatio" | "maxAspectRatio",
+    placeholder: string,
+    step = "1"
+  ) => (
+    <input
+      type="number"
+      min="0"
+      step={step}
+      placeholder={placeholder}
+      value={value[key] ?? ""}
+      onChange={(e) => onChange({ ...value, [key]: toNumber(e.target.value) })}
+      disabled={disabled}
+      className={inputClassName}
+    />
+  );
+
+  // An empty selection means every format is allowed
+  const toggleFormat = (format: string) => {
+    const formats = value.formats ?? [];
+    const next = formats.includes(format)
+      ? formats.filter((f) => f !== format)
+      : [...formats, format];
+    onChange({ ...value, formats: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="w-full space-y-3 text-sm text-purple-200">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-white">Minimum size:</span>
+        {numberInput("minWidth", "width")}×{numberInput("minHeight", "height")}
+        <span className="font-semibold text-white ml-2">Aspect ratio:</span>
+        {numberInput("minAspectRatio", "min", "0.1")}–
+        {numberInput("maxAspectRatio", "max", "0.1")}
+        <span className="font-semibold text-white ml-2">Max size (MB):</span>
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={value.maxBytes ? value.maxBytes / (1024 * 1024) : ""}
+          onChange={(e) => {
+            const megabytes = toNumber(e.target.value);
+            onChange({
+              ...value,
+              maxBytes: megabytes
+                ? Math.round(megabytes * 1024 * 1024)
+                : undefined,
+            });
+          }}
+          disabled={disabled}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-white">Formats:</span>
+        {FORMATS.map((format) => (
+          <label key={format} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={value.formats?.includes(format) ?? false}
+              onChange={() => toggleFormat(format)}
+              disabled={disabled}
+            />
+            {format.toUpperCase()}
+          </label>
+        ))}
+        <label className="flex items-center gap-1 ml-2">
+          <input
+            type="checkbox"
+            checked={value.allowAnimated === false}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                allowAnimated: e.target.checked ? false : undefined,
+              })
+            }
+            disabled={disabled}
+          />
+          Skip animated images
+        </label>
+      </div>
+    </div>
+  );
+}
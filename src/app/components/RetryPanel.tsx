@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import type { ReviewItem } from "./ReviewPanel";
+
+interface RetryPanelProps {
+  jobId: string | null;
+  items: ReviewItem[];
+  providers: { name: string; label: string }[];
+  // `providers` only when the user picked some; otherwise the job and its
+  // rows keep their own
+  onRetry: (queries: Record<string, string>, providers?: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function RetryPanel({
+  jobId,
+  items,
+  providers,
+  onRetry,
+  disabled,
+}: RetryPanelProps) {
+  const [queries, setQueries] = useState<Record<string, string>>({});
+  const [retryProviders, setRetryProviders] = useState<string[]>([]);
+  const failed = items.filter((item) => item.status === "failed");
+
+  if (failed.length === 0) return null;
+
+  const changedQueries = Object.fromEntries(
+    Object.entries(queries).filter(([, query]) => query.trim())
+  );
+
+  return (
+    <div className="mt-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-red-300">
+          {failed.length} {failed.length === 1 ? "row" : "rows"} failed
+        </p>
+        {jobId && (
+          <a
+            href={`/api/jobs/${jobId}/failures`}
+            className="text-sm text-purple-200 underline hover:text-white"
+          >
+            Download failure report
+          </a>
+        )}
+        <button
+          onClick={() =>
+            onRetry(
+              changedQueries,
+              retryProviders.length > 0 ? retryProviders : undefined
+            )
+          }
+          disabled={disabled}
+          className="px-4 py-2 rounded-lg bg-purple-600/50 hover:bg-purple-600/80 text-white font-semibold border border-purple-500/30 disabled:opacity-50"
+        >
+          Retry failed rows
+        </button>
+      </div>
+      {providers.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-purple-300">
+          <span>Search again with:</span>
+          {providers.map((provider) => (
+            <label key={provider.name} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={retryProviders.includes(provider.name)}
+                onChange={() =>
+                  setRetryProviders((current) =>
+                    current.includes(provider.name)
+                      ? current.filter((name) => name !== provider.name)
+                      : [...current, provider.name]
+                  )
+                }
+                disabled={disabled}
+              />
+              {provider.label}
+            </label>
+          ))}
+          {retryProviders.length === 0 && (
+            <span>(none checked: the job&apos;s own providers)</span>
+          )}
+        </div>
+      )}
+      <div className="max-h-60 overflow-y-auto space-y-2 pr-2">
+        {failed.map((item, index) => (
+          <div key={index} className="flex items-center gap-3 text-sm">
+            <span className="w-1/3 truncate text-white" title={item.error}>
+              {item.id} - {item.image_name}
+            </span>
+            <input
+              type="text"
+              placeholder="New search query (optional)"
+              value={queries[item.id] ?? ""}
+              onChange={(e) =>
+                setQueries((current) => ({
+                  ...current,
+                  [item.id]: e.target.value,
+                }))
+              }
+              disabled={disabled}
+              className="flex-1 min-w-0 bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30 placeholder:text-purple-300/60"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+
+export interface ImageCandidate {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+export interface SavedImage {
+  fileName: string;
+  url: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+}
+
+export interface SimilarImage {
+  fileName: string;
+  index: number;
+  rowId: string;
+  otherFileName: string;
+  distance: number;
+}
+
+export interface ReviewItem {
+  id: string;
+  image_name: string;
+  status: "pending" | "downloading" | "success" | "failed";
+  error?: string;
+  // e.g. "rate_limited" or "not_found"
+  errorCategory?: string;
+  images?: SavedImage[];
+  candidates?: ImageCandidate[];
+  // Other rows whose image looks the same
+  similar?: SimilarImage[];
+}
+
+// Failures that may pass on a later retry, unlike genuine misses
+export function isTransientFailure(item: ReviewItem): boolean {
+  return (
+    item.errorCategory === "rate_limited" ||
+    item.errorCategory === "timeout" ||
+    item.errorCategory === "network"
+  );
+}
+
+// "Looks like row 17, row 42"
+export function similarRowsLabel(similar: SimilarImage[]): string {
+  const rows = [...new Set(similar.map((entry) => entry.rowId))];
+  return `Looks like the image of row ${rows.join(", row ")}`;
+}
+
+interface ReviewPanelProps {
+  jobId: string;
+  items: ReviewItem[];
+  onItemChange: (index: number, item: ReviewItem) => void;
+  onFinish: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  "flex-1 min-w-0 bg-purple-500/30 text-white text-sm rounded px-2 py-1 border border-purple-500/30 placeholder:text-purple-300/60";
+const buttonClassName =
+  "px-3 py-1 rounded bg-purple-600/50 hover:bg-purple-600/80 text-white text-sm border border-purple-500/30 disabled:opacity-50";
+
+function ReviewRow({
+  jobId,
+  index,
+  item,
+  onItemChange,
+}: {
+  jobId: string;
+  index: number;
+  item: ReviewItem;
+  onItemChange: (index: number, item: ReviewItem) => void;
+}) {
+  const [pastedUrl, setPastedUrl] = useState("");
+  const [query, setQuery] = useState(item.image_name);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rowUrl = `/api/jobs/${jobId}/rows/${index}`;
+
+  const run = async (action: () => Promise<Response>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await action();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chooseUrl = async (url: string) => {
+    const updated = await run(() =>
+      fetch(`${rowUrl}/image`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url }),
+      })
+    );
+    if (updated) {
+      onItemChange(index, { ...updated, candidates: item.candidates });
+      setPastedUrl("");
+    }
+  };
+
+  const uploadFile = async (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    const updated = await run(() =>
+      fetch(`${rowUrl}/image`, { method: "POST", body: formData })
+    );
+    if (updated) {
+      onItemChange(index, { ...updated, candidates: item.candidates });
+    }
+  };
+
+  const searchAgain = async () => {
+    const data = await run(() =>
+      fetch(`${rowUrl}/search`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query }),
+      })
+    );
+    if (data) {
+      onItemChange(index, { ...item, candidates: data.candidates });
+    }
+  };
+
+  const currentUrls = new Set(item.images?.map((image) => image.url));
+
+  return (
+    <div
+      className={`p-4 rounded-lg border space-y-3 ${
+        item.status !== "success"
+          ? "bg-red-500/10 border-red-500/30"
+          : item.similar
+          ? "bg-yellow-500/10 border-yellow-500/30"
+          : "bg-white/5 border-white/10"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-4">
+        <p className="font-medium text-white truncate">
+          {item.id} - {item.image_name}
+        </p>
+        {item.error && <p className="text-xs text-red-400">{item.error}</p>}
+        {item.similar && (
+          <p className="text-xs text-yellow-300">
+            {similarRowsLabel(item.similar)}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {item.images?.map((image) => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={image.fileName}
+            src={`/api/jobs/${jobId}/files/${image.fileName}?v=${image.bytes}`}
+            alt={item.image_name}
+            className="h-24 w-24 object-contain rounded bg-white ring-2 ring-green-400 shrink-0"
+          />
+        ))}
+        {item.candidates
+          ?.filter((candidate) => !currentUrls.has(candidate.url))
+          .map((candidate) => (
+            <button
+              key={candidate.url}
+              onClick={() => chooseUrl(candidate.url)}
+              disabled={busy}
+              title={
+                candidate.width && candidate.height
+                  ? `${candidate.width}×${candidate.height}`
+                  : candidate.url
+              }
+              className="shrink-0 rounded ring-1 ring-white/20 hover:ring-purple-400 disabled:opacity-50"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={candidate.url}
+                alt=""
+                referrerPolicy="no-referrer"
+                className="h-24 w-24 object-contain rounded bg-white/80"
+              />
+            </button>
+          ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="url"
+          placeholder="Paste an image URL"
+          value={pastedUrl}
+          onChange={(e) => setPastedUrl(e.target.value)}
+          disabled={busy}
+          className={inputClassName}
+        />
+        <button
+          onClick={() => chooseUrl(pastedUrl)}
+          disabled={busy || !pastedUrl.trim()}
+          className={buttonClassName}
+        >
+          Use URL
+        </button>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Upload
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void uploadFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          placeholder="Search again with a different query"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          disabled={busy}
+          className={inputClassName}
+        />
+        <button
+          onClick={searchAgain}
+          disabled={busy || !query.trim()}
+          className={buttonClassName}
+        >
+          Search
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export default function ReviewPanel({
+  jobId,
+  items,
+  onItemChange,
+  onFinish,
+}: ReviewPanelProps) {
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const rows = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !failedOnly || item.status !== "success");
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-white">Review images</h3>
+        <label className="flex items-center gap-2 text-sm text-purple-200">
+          <input
+            type="checkbox"
+            checked={failedOnly}
+            onChange={(e) => setFailedOnly(e.target.checked)}
+          />
+          Only rows without an image
+        </label>
+      </div>
+
+      <div className="max-h-[40rem] overflow-y-auto space-y-3 pr-2">
+        {rows.slice(0, visibleCount).map(({ item, index }) => (
+          <ReviewRow
+            key={index}
+            jobId={jobId}
+            index={index}
+            item={item}
+            onItemChange={onItemChange}
+          />
+        ))}
+        {rows.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+            className={`w-full ${buttonClassName}`}
+          >
+            Show more ({rows.length - visibleCount} remaining)
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={onFinish}
+        className="w-full py-4 px-6 rounded-xl font-semibold text-lg bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white shadow-lg hover:shadow-purple-500/50"
+      >
+        Build archive
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export interface ShareInfo {
+  url: string;
+  expiresAt: string;
+  maxDownloads: number | null;
+  downloads: number;
+}
+
+interface ShareControlsProps {
+  downloadId: string;
+  share?: ShareInfo;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+];
+
+const controlClassName =
+  "bg-purple-500/30 text-white text-sm rounded px-2 py-1 border border-purple-500/30";
+
+export default function ShareControls({
+  downloadId,
+  share,
+}: ShareControlsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [hours, setHours] = useState(24);
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/downloads/${downloadId}/share`, init);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createShare = () =>
+    request({
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        hours,
+        maxDownloads: maxDownloads ? Number(maxDownloads) : undefined,
+      }),
+    });
+
+  return (
+    <div className="text-sm text-purple-200 space-y-2">
+      {share && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            readOnly
+            value={share.url}
+            onFocus={(e) => e.target.select()}
+            className={`flex-1 min-w-0 ${controlClassName}`}
+          />
+          <button
+            onClick={() =>
+              navigator.clipboard.writeText(
+                new URL(share.url, window.location.href).toString()
+              )
+            }
+            className="hover:text-white"
+          >
+            Copy
+          </button>
+          <span className="text-xs text-purple-300">
+            until {new Date(share.expiresAt).toLocaleString()}
+            {share.maxDownloads !== null &&
+              ` · ${share.downloads}/${share.maxDownloads} downloads`}
+          </span>
+          <button
+            onClick={() => request({ method: "DELETE" })}
+            disabled={busy}
+            className="text-red-300 hover:text-red-200 disabled:opacity-50"
+          >
+            Revoke
+          </button>
+        </div>
+      )}
+
+      {open ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={hours}
+            onChange={(e) => setHours(Number(e.target.value))}
+            disabled={busy}
+            className={controlClassName}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option
+                key={option.hours}
+                value={option.hours}
+                className="bg-slate-900"
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            placeholder="Download limit"
+            value={maxDownloads}
+            onChange={(e) => setMaxDownloads(e.target.value)}
+            disabled={busy}
+            className={`w-36 ${controlClassName}`}
+          />
+          <button
+            onClick={createShare}
+            disabled={busy}
+            className="px-3 py-1 rounded bg-purple-600/50 hover:bg-purple-600/80 text-white border border-purple-500/30 disabled:opacity-50"
+          >
+            {share ? "Replace link" : "Create link"}
+          </button>
+        </div>
+      ) : (
+        <button onClick={() => setOpen(true)} className="hover:text-white">
+          {share ? "New share link" : "Share"}
+        </button>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import Link from "next/link";
+import { auth, signOut } from "@/lib/auth";
+
+export default async function UserMenu() {
+  const session = await auth();
+
+  return (
+    <nav className="absolute top-4 right-4 flex items-center gap-4 text-sm text-purple-200">
+      {session?.user ? (
+        <>
+          <Link href="/downloads" className="hover:text-white">
+            My downloads
+          </Link>
+          <Link href="/settings/api-keys" className="hover:text-white">
+            API keys
+          </Link>
+          <Link href="/settings/webhooks" className="hover:text-white">
+            Webhooks
+          </Link>
+          <form
+            action={async () => {
+              "use server";
+              await signOut({ redirectTo: "/" });
+            }}
+          >
+            <button type="submit" className="hover:text-white">
+              Sign out{session.user.name ? ` (${session.user.name})` : ""}
+            </button>
+          </form>
+        </>
+      ) : (
+        <Link href="/auth/signin" className="hover:text-white">
+          Sign in
+        </Link>
+      )}
+    </nav>
+  );
+}
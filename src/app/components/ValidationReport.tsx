@@ -0,0 +1,98 @@
+"use client";
+
+export interface ValidationIssue {
+  row: number;
+  id: string;
+  field: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ValidationResult {
+  rowCount: number;
+  validCount: number;
+  invalidRows: number[];
+  issues: ValidationIssue[];
+}
+
+export type InvalidRowHandling = "skip" | "proceed";
+
+interface ValidationReportProps {
+  report: ValidationResult;
+  onInvalid: InvalidRowHandling;
+  onInvalidChange: (value: InvalidRowHandling) => void;
+  disabled?: boolean;
+}
+
+export default function ValidationReport({
+  report,
+  onInvalid,
+  onInvalidChange,
+  disabled = false,
+}: ValidationReportProps) {
+  const invalidCount = report.invalidRows.length;
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="mt-4 p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
+        <p className="text-green-300 text-sm">
+          All {report.rowCount} rows passed validation
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`mt-4 p-4 rounded-lg border ${
+        invalidCount > 0
+          ? "bg-red-500/10 border-red-500/30"
+          : "bg-yellow-500/10 border-yellow-500/30"
+      }`}
+    >
+      <p className="text-sm text-white font-semibold mb-2">
+        {invalidCount > 0
+          ? `${invalidCount} of ${report.rowCount} rows have problems`
+          : `${report.issues.length} warnings`}
+      </p>
+      <div className="max-h-48 overflow-y-auto space-y-1 pr-2">
+        {report.issues.map((issue, index) => (
+          <p
+            key={index}
+            className={`text-xs ${
+              issue.severity === "error" ? "text-red-300" : "text-yellow-300"
+            }`}
+          >
+            Row {issue.row}
+            {issue.id && ` (${issue.id})`} · {issue.field}: {issue.message}
+          </p>
+        ))}
+      </div>
+      {invalidCount > 0 && (
+        <div className="mt-3 flex flex-wrap gap-4 text-sm text-purple-200">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={onInvalid === "skip"}
+              onChange={() => onInvalidChange("skip")}
+              disabled={disabled}
+            />
+            Drop {invalidCount} bad rows
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={onInvalid === "proceed"}
+              onChange={() => onInvalidChange("proceed")}
+              disabled={disabled}
+            />
+            Process all rows anyway
+          </label>
+          <span className="text-purple-300/80">
+            or fix the file and upload it again
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
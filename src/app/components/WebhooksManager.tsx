@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export interface WebhookInfo {
+  id: string;
+  url: string;
+  failureThreshold: number | null;
+  createdAt: string;
+}
+
+interface WebhooksManagerProps {
+  webhooks: WebhookInfo[];
+  secret: string;
+}
+
+const controlClassName =
+  "bg-purple-500/30 text-white text-sm rounded px-2 py-1 border border-purple-500/30";
+
+export default function WebhooksManager({
+  webhooks,
+  secret,
+}: WebhooksManagerProps) {
+  const router = useRouter();
+  const [url, setUrl] = useState("");
+  const [threshold, setThreshold] = useState("");
+  const [showSecret, setShowSecret] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(path, init);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addWebhook = async () => {
+    const added = await request("/api/webhooks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        url,
+        failureThreshold: threshold ? Number(threshold) : undefined,
+      }),
+    });
+    if (added) {
+      setUrl("");
+      setThreshold("");
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-purple-200">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-white">Signing secret:</span>
+        <input
+          readOnly
+          type={showSecret ? "text" : "password"}
+          value={secret}
+          onFocus={(e) => e.target.select()}
+          className={`flex-1 min-w-0 font-mono ${controlClassName}`}
+        />
+        <button
+          onClick={() => setShowSecret(!showSecret)}
+          className="hover:text-white"
+        >
+          {showSecret ? "Hide" : "Show"}
+        </button>
+        <button
+          onClick={() => request("/api/webhooks/secret", { method: "POST" })}
+          disabled={busy}
+          className="text-red-300 hover:text-red-200 disabled:opacity-50"
+        >
+          Rotate
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          placeholder="https://example.com/hooks/images"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          disabled={busy}
+          className={`flex-1 min-w-0 ${controlClassName}`}
+        />
+        <input
+          type="number"
+          min={1}
+          max={100}
+          placeholder="Failure % alert"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          disabled={busy}
+          className={`w-36 ${controlClassName}`}
+        />
+        <button
+          onClick={addWebhook}
+          disabled={busy || !url.trim()}
+          className="px-3 py-1 rounded bg-purple-600/50 hover:bg-purple-600/80 text-white border border-purple-500/30 disabled:opacity-50"
+        >
+          Add webhook
+        </button>
+      </div>
+
+      {webhooks.length === 0 ? (
+        <p className="text-center">No account webhooks yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {webhooks.map((webhook) => (
+            <div
+              key={webhook.id}
+              className="p-3 rounded-lg border bg-white/5 border-white/10 flex items-center justify-between gap-4"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-white truncate">{webhook.url}</p>
+                <p className="text-xs text-purple-300">
+                  Completed and failed jobs
+                  {webhook.failureThreshold !== null &&
+                    ` · alert at ${webhook.failureThreshold}% failed rows`}
+                </p>
+              </div>
+              <button
+                onClick={() =>
+                  request(`/api/webhooks/${webhook.id}`, { method: "DELETE" })
+                }
+                disabled={busy}
+                className="text-red-300 hover:text-red-200 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import ShareControls from "../components/ShareControls";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { listShares } from "@/lib/shares";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function isExpired(expiresAt: Date): boolean {
+  return expiresAt.getTime() <= Date.now();
+}
+
+export default async function DownloadsPage() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect("/auth/signin?callbackUrl=/downloads");
+  }
+
+  const downloads = await prisma.download.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+  });
+  const shares = new Map(
+    (await listShares(session.user.id)).map((share) => [
+      share.downloadId,
+      share,
+    ])
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-white">My downloads</h1>
+          <Link href="/" className="text-purple-200 hover:text-white text-sm">
+            New batch
+          </Link>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 shadow-2xl border border-white/20">
+          {downloads.length === 0 ? (
+            <p className="text-purple-200 text-center">
+              Finished jobs will appear here.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {downloads.map((download) => {
+                const expired = isExpired(download.expiresAt);
+                const canDownload =
+                  !expired && download.downloadUrl.startsWith("/");
+                return (
+                  <div
+                    key={download.id}
+                    className="p-3 rounded-lg border bg-white/5 border-white/10 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-white truncate">
+                          {download.fileName}
+                        </p>
+                        <p className="text-xs text-purple-300">
+                          {download.createdAt.toLocaleString()} ·{" "}
+                          {download.imageCount} images ·{" "}
+                          {formatBytes(download.totalSize)} ·{" "}
+                          {download.exportFormat}
+                        </p>
+                      </div>
+                      {canDownload ? (
+                        <a
+                          href={download.downloadUrl}
+                          className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white text-sm font-semibold rounded-lg transition-colors"
+                        >
+                          Download
+                        </a>
+                      ) : (
+                        <span className="text-sm text-gray-400 truncate max-w-48">
+                          {expired ? "Expired" : download.downloadUrl}
+                        </span>
+                      )}
+                    </div>
+                    {canDownload && (
+                      <ShareControls
+                        downloadId={download.id}
+                        share={shares.get(download.id)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
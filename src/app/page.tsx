@@ -1,16 +1,55 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import * as XLSX from "xlsx";
 import AdBanner from "./components/AdBanner";
+import ColumnMapping, { InputSummary } from "./components/ColumnMapping";
+import ProcessingSettings, {
+  ProcessingOptions,
+} from "./components/ProcessingSettings";
+import QualitySettings, {
+  QualityConstraints,
+} from "./components/QualitySettings";
+import RetryPanel from "./components/RetryPanel";
+import ReviewPanel, {
+  isTransientFailure,
+  ReviewItem,
+  similarRowsLabel,
+} from "./components/ReviewPanel";
+import ValidationReport, {
+  InvalidRowHandling,
+  ValidationResult,
+} from "./components/ValidationReport";
+import type { JobEvent, JobEventType } from "@/lib/jobs/eventTypes";
 
-interface ProgressItem {
-  id: string;
-  image_name: string;
-  status: "pending" | "downloading" | "success" | "failed";
-  error?: string;
+type ProgressItem = ReviewItem;
+
+interface ProviderInfo {
+  name: string;
+  label: string;
+  configured: boolean;
 }
 
+type ExportFormat = "zip" | "tar.gz" | "folders" | "xlsx";
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  zip: "ZIP",
+  "tar.gz": "tar.gz",
+  folders: "ZIP grouped by the group column",
+  xlsx: "Excel with embedded images",
+};
+
+const ACTIVE_JOB_KEY = "activeJobId";
+const ACCEPTED_EXTENSIONS = [
+  ".xlsx",
+  ".xls",
+  ".csv",
+  ".tsv",
+  ".json",
+  ".ndjson",
+  ".jsonl",
+];
+
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -18,6 +57,60 @@ export default function Home() {
   const [progress, setProgress] = useState<ProgressItem[]>([]);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(4);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [selectedProviders, setSelectedProviders] = useState<string[]>([]);
+  const [inputSummary, setInputSummary] = useState<InputSummary | null>(null);
+  const [columnMapping, setColumnMapping] = useState<Record<string, string>>(
+    {}
+  );
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [onInvalid, setOnInvalid] = useState<InvalidRowHandling>("skip");
+  const [quality, setQuality] = useState<QualityConstraints>({});
+  const [processing, setProcessing] = useState<ProcessingOptions | null>(null);
+  const [imagesPerRow, setImagesPerRow] = useState(1);
+  const [imageLayout, setImageLayout] = useState<"suffix" | "folder">("suffix");
+  const [ranking, setRanking] = useState(true);
+  const [reviewBeforeDownload, setReviewBeforeDownload] = useState(false);
+  const [annotatedInput, setAnnotatedInput] = useState(false);
+  const [reviewJobId, setReviewJobId] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("zip");
+  const [destinations, setDestinations] = useState<ProviderInfo[]>([]);
+  const [destination, setDestination] = useState("");
+  const [exportLocation, setExportLocation] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [preferredDomains, setPreferredDomains] = useState("");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [duplicates, setDuplicates] = useState(0);
+
+  useEffect(() => {
+    fetch("/api/providers")
+      .then((response) => response.json())
+      .then((data) => {
+        setProviders(data.providers);
+        setSelectedProviders(data.defaults);
+      })
+      .catch(() => {
+        // Fall back to the server's default provider
+      });
+
+    fetch("/api/destinations")
+      .then((response) => response.json())
+      .then((data) => setDestinations(data.destinations))
+      .catch(() => {
+        // Exports stay available for download
+      });
+  }, []);
+
+  // Checked providers are tried in the order they were checked
+  const toggleProvider = (name: string) => {
+    setSelectedProviders((current) =>
+      current.includes(name)
+        ? current.filter((n) => n !== name)
+        : [...current, name]
+    );
+  };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -29,48 +122,336 @@ export default function Home() {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragging(false);
-    const droppedFile = e.dataTransfer.files[0];
-    if (
-      droppedFile &&
-      (droppedFile.name.endsWith(".xlsx") || droppedFile.name.endsWith(".xls"))
-    ) {
-      setFile(droppedFile);
+  // Reads sheets and headers so columns can be mapped before processing
+  const inspectFile = useCallback(async (selected: File, sheet?: string) => {
+    const formData = new FormData();
+    formData.append("file", selected);
+    if (sheet) {
+      formData.append("sheet", sheet);
+    }
+
+    try {
+      const response = await fetch("/api/inputs/inspect", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read file");
+      }
+      setInputSummary(data);
+      setColumnMapping(data.suggestedMap);
+    } catch (err) {
+      setInputSummary(null);
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+  }, []);
+
+  const selectFile = useCallback(
+    (selected: File) => {
+      setFile(selected);
       setError(null);
       setDownloadUrl(null);
+      setExportLocation(null);
+      setReviewJobId(null);
       setProgress([]);
-    } else {
-      setError("Please upload an Excel file (.xlsx or .xls)");
-    }
-  }, []);
+      setInputSummary(null);
+      setValidation(null);
+      void inspectFile(selected);
+    },
+    [inspectFile]
+  );
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const droppedFile = e.dataTransfer.files[0];
+      if (
+        droppedFile &&
+        ACCEPTED_EXTENSIONS.some((ext) =>
+          droppedFile.name.toLowerCase().endsWith(ext)
+        )
+      ) {
+        selectFile(droppedFile);
+      } else {
+        setError("Please upload an Excel, CSV, TSV, JSON or NDJSON file");
+      }
+    },
+    [selectFile]
+  );
 
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const selectedFile = e.target.files?.[0];
       if (selectedFile) {
-        setFile(selectedFile);
-        setError(null);
-        setDownloadUrl(null);
-        setProgress([]);
+        selectFile(selectedFile);
+      }
+    },
+    [selectFile]
+  );
+
+  // The file plus how to read it, shared by validation and job creation
+  const buildInputFormData = useCallback(
+    (selected: File) => {
+      const formData = new FormData();
+      formData.append("file", selected);
+      if (inputSummary?.sheet) {
+        formData.append("sheet", inputSummary.sheet);
       }
+      // The server expects source header → row field
+      formData.append(
+        "columnMap",
+        JSON.stringify(
+          Object.fromEntries(
+            Object.entries(columnMapping).map(([field, header]) => [
+              header,
+              field,
+            ])
+          )
+        )
+      );
+      return formData;
     },
-    []
+    [inputSummary, columnMapping]
   );
 
+  // Re-check the rows whenever the sheet or column mapping changes
+  useEffect(() => {
+    if (!file || !inputSummary) return;
+
+    let cancelled = false;
+    fetch("/api/inputs/validate", {
+      method: "POST",
+      body: buildInputFormData(file),
+    })
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled) {
+          setValidation(data.error ? null : data);
+        }
+      })
+      .catch(() => {
+        // Validation runs again on submit
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, inputSummary, buildInputFormData]);
+
   const handleDownloadTemplate = () => {
     const sampleData = [
-        { id: "001", image_name: "Laptop" },
-        { id: "002", image_name: "Wireless Mouse" },
-        { id: "003", image_name: "Mechanical Keyboard" },
-      ];
+      {
+        id: "001",
+        image_name: "Laptop",
+        image_url: "",
+        search_query: "",
+        exclude_terms: "",
+        site: "",
+      },
+      {
+        id: "002",
+        image_name: "Wireless Mouse",
+        image_url: "",
+        search_query: "Logitech M185 wireless mouse",
+        exclude_terms: "pad, cartoon",
+        site: "",
+      },
+      {
+        id: "003",
+        image_name: "Mechanical Keyboard",
+        image_url: "https://example.com/images/keyboard.jpg",
+        search_query: "",
+        exclude_terms: "",
+        site: "",
+      },
+      {
+        id: "004",
+        image_name: "USB-C Hub",
+        image_url: "",
+        search_query: "",
+        exclude_terms: "",
+        site: "anker.com",
+      },
+    ];
+    const columnNotes = [
+      {
+        column: "id",
+        required: "yes",
+        description: "Used as the image file name",
+      },
+      {
+        column: "image_name",
+        required: "yes",
+        description: "Searched for when no other column applies",
+      },
+      {
+        column: "image_url",
+        required: "no",
+        description: "Known image URL; skips search entirely",
+      },
+      {
+        column: "search_query",
+        required: "no",
+        description: "Search text to use instead of image_name",
+      },
+      {
+        column: "exclude_terms",
+        required: "no",
+        description: "Comma-separated words results should not match",
+      },
+      {
+        column: "site",
+        required: "no",
+        description: "Only search images from this domain",
+      },
+      {
+        column: "provider",
+        required: "no",
+        description: "Search provider to try first for this row",
+      },
+      {
+        column: "group",
+        required: "no",
+        description: "Folder for this row's images in grouped exports",
+      },
+    ];
     const ws = XLSX.utils.json_to_sheet(sampleData);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Sheet1");
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.json_to_sheet(columnNotes),
+      "Columns"
+    );
     XLSX.writeFile(wb, "sample_template.xlsx");
   };
 
+  // Resolves once the job completes, fails or waits for review. Dropped
+  // connections are resumed by EventSource itself with Last-Event-ID.
+  const followJob = useCallback((jobId: string) => {
+    setIsProcessing(true);
+    setError(null);
+    setReviewJobId(null);
+    setJobId(jobId);
+
+    return new Promise<void>((resolve) => {
+      const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+      const finish = (message?: string) => {
+        source.close();
+        if (message) setError(message);
+        setIsProcessing(false);
+        resolve();
+      };
+
+      const on = <T extends JobEventType>(
+        type: T,
+        handler: (event: Extract<JobEvent, { type: T }>) => void
+      ) => {
+        source.addEventListener(type, (message) =>
+          handler(JSON.parse(message.data))
+        );
+      };
+
+      const updateRow = ({
+        index,
+        item,
+      }: Extract<JobEvent, { type: "row-started" | "row-finished" }>) => {
+        setProgress((items) =>
+          items.map((current, i) => (i === index ? item : current))
+        );
+      };
+
+      on("snapshot", (event) => setProgress(event.items));
+      on("row-started", updateRow);
+      on("row-finished", updateRow);
+      on("job-complete", (event) => {
+        setDownloadUrl(event.downloadUrl ?? null);
+        setExportLocation(event.location ?? null);
+        setExpiresAt(event.expiresAt ?? null);
+        setDuplicates(event.duplicates ?? 0);
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        finish();
+      });
+      on("job-review", () => {
+        // Keep the job id stored so a reopened tab returns to review
+        setReviewJobId(jobId);
+        finish();
+      });
+      on("job-failed", (event) => {
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        finish(event.message);
+      });
+
+      // EventSource retries on its own unless the server refused the stream
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          finish("Failed to load job");
+        }
+      };
+    });
+  }, []);
+
+  const updateReviewItem = useCallback((index: number, item: ReviewItem) => {
+    setProgress((items) =>
+      items.map((current, i) => (i === index ? item : current))
+    );
+  }, []);
+
+  const finishReview = async () => {
+    if (!reviewJobId) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${reviewJobId}/finalize`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to build archive");
+      }
+      await followJob(reviewJobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const retryFailed = async (
+    queries: Record<string, string>,
+    retryProviders?: string[]
+  ) => {
+    if (!jobId) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ providers: retryProviders, queries }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to retry rows");
+      }
+      setDownloadUrl(null);
+      setExportLocation(null);
+      localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+      await followJob(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  // Reconnect to a job that was still running when the tab was closed
+  useEffect(() => {
+    const activeJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (activeJobId) {
+      void followJob(activeJobId);
+    }
+  }, [followJob]);
+
   const handleSubmit = async () => {
     if (!file) {
       setError("Please select a file first");
@@ -80,59 +461,66 @@ export default function Home() {
     setIsProcessing(true);
     setError(null);
     setDownloadUrl(null);
+    setExportLocation(null);
+    setReviewJobId(null);
 
     try {
-      const formData = new FormData();
-      formData.append("file", file);
+      const formData = buildInputFormData(file);
+      formData.append("concurrency", String(concurrency));
+      formData.append("providers", selectedProviders.join(","));
+      formData.append("quality", JSON.stringify(quality));
+      if (processing) {
+        formData.append("processing", JSON.stringify(processing));
+      }
+      formData.append("imagesPerRow", String(imagesPerRow));
+      formData.append("imageLayout", imageLayout);
+      formData.append("ranking", String(ranking));
+      formData.append("preferredDomains", preferredDomains);
+      if (reviewBeforeDownload) {
+        formData.append("review", "true");
+      }
+      if (annotatedInput) {
+        formData.append("annotatedInput", "true");
+      }
+      formData.append("exportFormat", exportFormat);
+      if (destination) {
+        formData.append("destination", destination);
+      }
+      if (webhookUrl.trim()) {
+        formData.append("webhookUrl", webhookUrl.trim());
+      }
+      if (validation && validation.invalidRows.length > 0) {
+        formData.append("onInvalid", onInvalid);
+      }
 
-      const response = await fetch("/api/process", {
+      const response = await fetch("/api/jobs", {
         method: "POST",
         body: formData,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.report) {
+          setValidation(errorData.report);
+        }
         throw new Error(errorData.error || "Failed to process file");
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error("No response stream");
-      }
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const text = decoder.decode(value);
-        const lines = text.split("\n").filter((line) => line.trim());
-
-        for (const line of lines) {
-          try {
-            const data = JSON.parse(line);
-            if (data.type === "progress") {
-              setProgress(data.items);
-            } else if (data.type === "complete") {
-              setDownloadUrl(data.downloadUrl);
-            } else if (data.type === "error") {
-              setError(data.message);
-            }
-          } catch {
-            // Ignore parsing errors for incomplete chunks
-          }
-        }
-      }
+      const { id } = await response.json();
+      localStorage.setItem(ACTIVE_JOB_KEY, id);
+      await followJob(id);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
-    } finally {
       setIsProcessing(false);
     }
   };
 
   const completedCount = progress.filter((p) => p.status === "success").length;
   const failedCount = progress.filter((p) => p.status === "failed").length;
+  const similarCount = progress.filter((p) => p.similar).length;
+  const transientCount = progress.filter(
+    (p) => p.status === "failed" && isTransientFailure(p)
+  ).length;
   const totalCount = progress.length;
 
   return (
@@ -143,7 +531,7 @@ export default function Home() {
             Bulk Image Downloader
           </h1>
             <p className="text-lg text-purple-200">
-              Upload an Excel file with IDs and image names to download images
+              Upload a spreadsheet with IDs and image names to download images
               automatically
             </p>
           </div>
@@ -165,7 +553,7 @@ export default function Home() {
           >
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept={ACCEPTED_EXTENSIONS.join(",")}
               onChange={handleFileChange}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               disabled={isProcessing}
@@ -188,10 +576,11 @@ export default function Home() {
               </div>
               <div>
                 <p className="text-xl font-semibold text-white">
-                  {file ? file.name : "Drop your Excel file here"}
+                  {file ? file.name : "Drop your spreadsheet here"}
                 </p>
                 <p className="text-purple-200 mt-2">
-                  or click to browse (supports .xlsx, .xls)
+                  or click to browse (supports .xlsx, .xls, .csv, .tsv, .json,
+                  .ndjson)
                 </p>
               </div>
             </div>
@@ -210,6 +599,18 @@ export default function Home() {
                 <code className="bg-purple-500/30 px-2 py-0.5 rounded">
                   image_name
                 </code>
+              <br />
+              <span className="font-semibold text-white">Optional:</span>{" "}
+              <code className="bg-purple-500/30 px-2 py-0.5 rounded">
+                image_url
+              </code>{" "}
+              <code className="bg-purple-500/30 px-2 py-0.5 rounded">
+                search_query
+              </code>{" "}
+              <code className="bg-purple-500/30 px-2 py-0.5 rounded">
+                exclude_terms
+              </code>{" "}
+              <code className="bg-purple-500/30 px-2 py-0.5 rounded">site</code>
             </p>
             <button
               onClick={handleDownloadTemplate}
@@ -232,6 +633,214 @@ export default function Home() {
             </button>
           </div>
 
+          {/* Sheet + Column Mapping */}
+          {file && inputSummary && (
+            <ColumnMapping
+              summary={inputSummary}
+              mapping={columnMapping}
+              onMappingChange={setColumnMapping}
+              onSheetChange={(sheet) => void inspectFile(file, sheet)}
+              disabled={isProcessing}
+            />
+          )}
+
+          {/* Validation Report */}
+          {file && validation && (
+            <ValidationReport
+              report={validation}
+              onInvalid={onInvalid}
+              onInvalidChange={setOnInvalid}
+              disabled={isProcessing}
+            />
+          )}
+
+          {/* Job Settings */}
+          <div className="mt-4 p-4 bg-white/5 rounded-lg border border-white/10 flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <span className="font-semibold text-white">Parallel rows:</span>
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isProcessing}
+                className="bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+              >
+                {[1, 2, 4, 8, 16].map((n) => (
+                  <option key={n} value={n} className="bg-slate-900">
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <span className="font-semibold text-white">Images per row:</span>
+              <select
+                value={imagesPerRow}
+                onChange={(e) => setImagesPerRow(Number(e.target.value))}
+                disabled={isProcessing}
+                className="bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+              >
+                {[1, 2, 3, 4, 5].map((n) => (
+                  <option key={n} value={n} className="bg-slate-900">
+                    {n}
+                  </option>
+                ))}
+              </select>
+              {imagesPerRow > 1 && (
+                <select
+                  value={imageLayout}
+                  onChange={(e) =>
+                    setImageLayout(e.target.value as "suffix" | "folder")
+                  }
+                  disabled={isProcessing}
+                  className="bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+                >
+                  <option value="suffix" className="bg-slate-900">
+                    id_1.jpg, id_2.jpg
+                  </option>
+                  <option value="folder" className="bg-slate-900">
+                    id/1.jpg, id/2.jpg
+                  </option>
+                </select>
+              )}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <input
+                type="checkbox"
+                checked={ranking}
+                onChange={(e) => setRanking(e.target.checked)}
+                disabled={isProcessing}
+              />
+              <span className="font-semibold text-white">
+                Rank candidates
+              </span>
+            </label>
+            {ranking && (
+              <input
+                type="text"
+                placeholder="Preferred domains, e.g. brand.com"
+                value={preferredDomains}
+                onChange={(e) => setPreferredDomains(e.target.value)}
+                disabled={isProcessing}
+                className="flex-1 min-w-48 bg-purple-500/30 text-white text-sm rounded px-2 py-1 border border-purple-500/30 placeholder:text-purple-300/60"
+              />
+            )}
+            {providers.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-purple-200">
+                <span className="font-semibold text-white">Search with:</span>
+                {providers
+                  .filter((provider) => provider.configured)
+                  .map((provider) => {
+                    const order = selectedProviders.indexOf(provider.name);
+                    return (
+                      <label
+                        key={provider.name}
+                        className="flex items-center gap-1"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={order !== -1}
+                          onChange={() => toggleProvider(provider.name)}
+                          disabled={isProcessing}
+                        />
+                        {provider.label}
+                        {order !== -1 && selectedProviders.length > 1 && (
+                          <span className="text-xs text-purple-300">
+                            ({order + 1})
+                          </span>
+                        )}
+                      </label>
+                    );
+                  })}
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <input
+                type="checkbox"
+                checked={reviewBeforeDownload}
+                onChange={(e) => setReviewBeforeDownload(e.target.checked)}
+                disabled={isProcessing}
+              />
+              <span className="font-semibold text-white">
+                Review images before download
+              </span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <input
+                type="checkbox"
+                checked={annotatedInput}
+                onChange={(e) => setAnnotatedInput(e.target.checked)}
+                disabled={isProcessing}
+              />
+              <span className="font-semibold text-white">
+                Include annotated spreadsheet
+              </span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <span className="font-semibold text-white">Export as:</span>
+              <select
+                value={exportFormat}
+                onChange={(e) =>
+                  setExportFormat(e.target.value as ExportFormat)
+                }
+                disabled={isProcessing}
+                className="bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+              >
+                {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value} className="bg-slate-900">
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {destinations.some((option) => option.configured) && (
+              <label className="flex items-center gap-2 text-sm text-purple-200">
+                <span className="font-semibold text-white">Deliver to:</span>
+                <select
+                  value={destination}
+                  onChange={(e) => setDestination(e.target.value)}
+                  disabled={isProcessing}
+                  className="bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+                >
+                  <option value="" className="bg-slate-900">
+                    Download
+                  </option>
+                  {destinations
+                    .filter((option) => option.configured)
+                    .map((option) => (
+                      <option
+                        key={option.name}
+                        value={option.name}
+                        className="bg-slate-900"
+                      >
+                        {option.label}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              <span className="font-semibold text-white">Notify webhook:</span>
+              <input
+                type="url"
+                placeholder="https://example.com/hooks/images"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                disabled={isProcessing}
+                className="flex-1 bg-purple-500/30 text-white rounded px-2 py-1 border border-purple-500/30"
+              />
+            </label>
+            <QualitySettings
+              value={quality}
+              onChange={setQuality}
+              disabled={isProcessing}
+            />
+            <ProcessingSettings
+              value={processing}
+              onChange={setProcessing}
+              disabled={isProcessing}
+            />
+          </div>
+
           {/* Error Message */}
           {error && (
             <div className="mt-6 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
@@ -277,8 +886,18 @@ export default function Home() {
             )}
           </button>
 
+          {/* Review */}
+          {reviewJobId && (
+            <ReviewPanel
+              jobId={reviewJobId}
+              items={progress}
+              onItemChange={updateReviewItem}
+              onFinish={finishReview}
+            />
+          )}
+
           {/* Progress List */}
-          {progress.length > 0 && (
+          {progress.length > 0 && !reviewJobId && (
             <div className="mt-8">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-semibold text-white">Progress</h3>
@@ -287,6 +906,16 @@ export default function Home() {
                     Success: {completedCount}
                   </span>
                   <span className="text-red-400">Failed: {failedCount}</span>
+                  {transientCount > 0 && (
+                    <span className="text-yellow-300">
+                      Temporary: {transientCount}
+                    </span>
+                  )}
+                  {similarCount > 0 && (
+                    <span className="text-orange-300">
+                      Needs review: {similarCount}
+                    </span>
+                  )}
                   <span className="text-purple-200">Total: {totalCount}</span>
                 </div>
               </div>
@@ -308,7 +937,9 @@ export default function Home() {
                   <div
                     key={index}
                     className={`p-3 rounded-lg border transition-all duration-300 ${
-                      item.status === "success"
+                      item.status === "success" && item.similar
+                        ? "bg-orange-500/10 border-orange-500/30"
+                        : item.status === "success"
                         ? "bg-green-500/10 border-green-500/30"
                         : item.status === "failed"
                         ? "bg-red-500/10 border-red-500/30"
@@ -325,6 +956,13 @@ export default function Home() {
                         {item.error && (
                           <p className="text-xs text-red-400 mt-1">
                             {item.error}
+                            {isTransientFailure(item) &&
+                              " · temporary, retrying later may help"}
+                          </p>
+                        )}
+                        {item.similar && (
+                          <p className="text-xs text-yellow-300 mt-1">
+                            {similarRowsLabel(item.similar)} · needs review
                           </p>
                         )}
                       </div>
@@ -412,7 +1050,7 @@ export default function Home() {
               </p>
               <a
                 href={downloadUrl}
-                download="images.zip"
+                download
                 className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-500 text-white font-semibold rounded-lg transition-colors"
               >
                 <svg
@@ -428,10 +1066,45 @@ export default function Home() {
                     d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
                   />
                 </svg>
-                Download ZIP File
+                Download File
               </a>
+              {expiresAt && (
+                <p className="mt-3 text-sm text-purple-200">
+                  Available until {new Date(expiresAt).toLocaleString()}
+                </p>
+              )}
             </div>
           )}
+
+          {(downloadUrl || exportLocation) && duplicates > 0 && (
+            <p className="mt-4 text-sm text-yellow-300 text-center">
+              {duplicates} {duplicates === 1 ? "image is" : "images are"}{" "}
+              identical to another image in this export. The manifest lists
+              them under duplicate_of.
+            </p>
+          )}
+
+          {exportLocation && (
+            <div className="mt-8 p-6 bg-green-500/10 border border-green-500/30 rounded-xl text-center">
+              <p className="text-green-300 text-lg mb-2">
+                Images exported successfully!
+              </p>
+              <p className="text-sm text-purple-200 break-all">
+                {exportLocation}
+              </p>
+            </div>
+          )}
+
+          {/* Retry */}
+          {(downloadUrl || exportLocation) && (
+            <RetryPanel
+              jobId={jobId}
+              items={progress}
+              providers={providers.filter((provider) => provider.configured)}
+              onRetry={retryFailed}
+              disabled={isProcessing}
+            />
+          )}
           </div>
 
           {/* Middle Ad Banner */}
@@ -439,7 +1112,7 @@ export default function Home() {
 
           {/* Footer */}
           <p className="text-center text-purple-300/60 mt-8 text-sm">
-            Powered by Bing Image Search
+            Powered by Bing Image Search and other providers
           </p>
 
           {/* Bottom Ad Banner */}
@@ -0,0 +1,43 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import ApiKeysManager from "../../components/ApiKeysManager";
+import { listApiKeys } from "@/lib/apiKeys";
+import { auth } from "@/lib/auth";
+
+export default async function ApiKeysPage() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect("/auth/signin?callbackUrl=/settings/api-keys");
+  }
+
+  const keys = await listApiKeys(session.user.id);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-white">API keys</h1>
+          <Link href="/" className="text-purple-200 hover:text-white text-sm">
+            New batch
+          </Link>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 shadow-2xl border border-white/20 space-y-4">
+          <p className="text-sm text-purple-200">
+            Use a key as{" "}
+            <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>{" "}
+            with the{" "}
+            <a
+              href="/api/v1/openapi.json"
+              className="underline hover:text-white"
+            >
+              v1 API
+            </a>
+            . Jobs created with a key belong to your account.
+          </p>
+          <ApiKeysManager keys={keys} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import WebhooksManager from "../../components/WebhooksManager";
+import { auth } from "@/lib/auth";
+import { getWebhookSecret, listDeliveries, listWebhooks } from "@/lib/webhooks";
+
+const STATUS_CLASSES: Record<string, string> = {
+  delivered: "text-green-400",
+  pending: "text-yellow-300",
+  failed: "text-red-400",
+};
+
+export default async function WebhooksPage() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect("/auth/signin?callbackUrl=/settings/webhooks");
+  }
+
+  const userId = session.user.id;
+  const [webhooks, secret, deliveries] = await Promise.all([
+    listWebhooks(userId),
+    getWebhookSecret(userId),
+    listDeliveries(userId),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-12 max-w-4xl space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-white">Webhooks</h1>
+          <Link href="/" className="text-purple-200 hover:text-white text-sm">
+            New batch
+          </Link>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 shadow-2xl border border-white/20 space-y-4">
+          <p className="text-sm text-purple-200">
+            Account webhooks receive a JSON POST when any of your jobs completes
+            or fails. Each request carries an{" "}
+            <code className="font-mono">X-Webhook-Signature</code> header, an
+            HMAC-SHA256 of the timestamp and body made with the secret below.
+          </p>
+          <WebhooksManager webhooks={webhooks} secret={secret} />
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 shadow-2xl border border-white/20">
+          <h2 className="text-xl font-semibold text-white mb-4">
+            Recent deliveries
+          </h2>
+          {deliveries.length === 0 ? (
+            <p className="text-purple-200 text-center text-sm">
+              Nothing has been sent yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {deliveries.map((delivery) => (
+                <div
+                  key={delivery.id}
+                  className="p-3 rounded-lg border bg-white/5 border-white/10 text-sm"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="font-medium text-white truncate">
+                      {delivery.event} · {delivery.url}
+                    </p>
+                    <span className={STATUS_CLASSES[delivery.status]}>
+                      {delivery.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-purple-300">
+                    Job {delivery.jobId} ·{" "}
+                    {new Date(delivery.createdAt).toLocaleString()} ·{" "}
+                    {delivery.attempts} attempts
+                    {delivery.responseStatus !== null &&
+                      ` · HTTP ${delivery.responseStatus}`}
+                    {delivery.error && ` · ${delivery.error}`}
+                    {delivery.status === "pending" &&
+                      delivery.nextAttemptAt &&
+                      ` · next try ${new Date(
+                        delivery.nextAttemptAt
+                      ).toLocaleString()}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
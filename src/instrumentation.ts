@@ -0,0 +1,10 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { resumeJobs } = await import("./lib/jobs/worker");
+    const { startRetention } = await import("./lib/jobs/retention");
+    const { startWebhookDelivery } = await import("./lib/webhooks");
+    resumeJobs();
+    startRetention();
+    startWebhookDelivery();
+  }
+}
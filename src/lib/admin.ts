@@ -0,0 +1,16 @@
+import crypto from "crypto";
+
+// Admin endpoints expect "Authorization: Bearer <ADMIN_TOKEN>"; they are
+// disabled while ADMIN_TOKEN is unset
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) return false;
+
+  const header = request.headers.get("authorization") ?? "";
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return (
+    provided.length === expected.length &&
+    crypto.timingSafeEqual(provided, expected)
+  );
+}
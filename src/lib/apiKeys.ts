@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import { prisma } from "./prisma";
+
+// Keys look like "idl_<43 url-safe characters>"; only their hash is stored
+const KEY_PREFIX = "idl_";
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// lastUsedAt is refreshed at most this often to avoid a write per request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+// Creates a key and returns it in full; it can't be shown again afterwards
+export async function createApiKey(
+  userId: string,
+  name: string
+): Promise<ApiKeyInfo & { key: string }> {
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+  const record = await prisma.apiKey.create({
+    data: {
+      userId,
+      name,
+      prefix: key.slice(0, PREFIX_LENGTH),
+      keyHash: hashKey(key),
+    },
+  });
+
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    createdAt: record.createdAt.toISOString(),
+    lastUsedAt: null,
+    key,
+  };
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKeyInfo[]> {
+  const keys = await prisma.apiKey.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return keys.map((key) => ({
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    createdAt: key.createdAt.toISOString(),
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+  }));
+}
+
+export async function revokeApiKey(
+  userId: string,
+  keyId: string
+): Promise<boolean> {
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id: keyId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+// Resolves "Authorization: Bearer <key>" to the key owner's user id
+export async function authenticateApiKey(
+  request: Request
+): Promise<string | null> {
+  const header = request.headers.get("authorization") ?? "";
+  const key = header.replace(/^Bearer\s+/i, "").trim();
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const record = await prisma.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+  });
+  if (!record || record.revokedAt) return null;
+
+  const lastUsed = record.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsed > TOUCH_INTERVAL_MS) {
+    await prisma.apiKey.update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+  return record.userId;
+}
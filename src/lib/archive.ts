@@ -0,0 +1,57 @@
+import archiver from "archiver";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+export const ZIP_DIR = path.join(os.tmpdir(), "image-downloader-zips");
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+// A file on disk, or generated content, and its name inside the archive
+export type ArchiveEntry =
+  | { name: string; path: string }
+  | { name: string; content: Buffer | string };
+
+export function getExportPath(fileId: string, extension: string): string {
+  return path.join(ZIP_DIR, `images-${fileId}${extension}`);
+}
+
+// Written next to `outputPath` and moved into place once complete, so an
+// archive that is being rebuilt keeps serving its previous version
+export async function writeArchive(
+  outputPath: string,
+  entries: ArchiveEntry[],
+  format: ArchiveFormat = "zip"
+): Promise<string> {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+
+  const tempPath = `${outputPath}.${process.pid}-${Date.now()}.tmp`;
+  const output = fs.createWriteStream(tempPath);
+  const archive =
+    format === "tar.gz"
+      ? archiver("tar", { gzip: true, gzipOptions: { level: 9 } })
+      : archiver("zip", { zlib: { level: 9 } });
+
+  await new Promise<void>((resolve, reject) => {
+    output.on("close", resolve);
+    archive.on("error", reject);
+    archive.pipe(output);
+
+    for (const entry of entries) {
+      if ("path" in entry) {
+        archive.file(entry.path, { name: entry.name });
+      } else {
+        archive.append(entry.content, { name: entry.name });
+      }
+    }
+
+    archive.finalize();
+  }).catch((err) => {
+    output.destroy();
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  });
+
+  fs.renameSync(tempPath, outputPath);
+  return outputPath;
+}
@@ -1,8 +1,25 @@
 import NextAuth from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
 import GitHubProvider from 'next-auth/providers/github';
+import { PrismaAdapter } from '@auth/prisma-adapter';
+import { prisma } from './prisma';
 
-export const authOptions = {
+// Providers offered on the sign-in page, once their credentials are set
+export const signInProviders = [
+  {
+    id: 'google',
+    label: 'Google',
+    configured: !!process.env.GOOGLE_CLIENT_ID,
+  },
+  {
+    id: 'github',
+    label: 'GitHub',
+    configured: !!process.env.GITHUB_CLIENT_ID,
+  },
+];
+
+export const { handlers, auth, signIn, signOut } = NextAuth({
+  adapter: PrismaAdapter(prisma),
   providers: [
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID,
@@ -13,6 +30,23 @@ export const authOptions = {
       clientSecret: process.env.GITHUB_CLIENT_SECRET,
     }),
   ],
-};
+  pages: {
+    signIn: '/auth/signin',
+  },
+  // Sessions live in the Session table so they can be revoked
+  session: {
+    strategy: 'database',
+  },
+  callbacks: {
+    async session({ session, user }) {
+      session.user.id = user.id;
+      return session;
+    },
+  },
+});
 
-export default NextAuth(authOptions);
\ No newline at end of file
+// The signed-in user's id, or null for anonymous requests
+export async function getUserId(): Promise<string | null> {
+  const session = await auth();
+  return session?.user?.id ?? null;
+}
@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { config } from "./config";
+import type { ImageCandidate } from "./search/types";
+
+// Shared by all jobs: search results by provider and query, and downloaded
+// images by URL. Image bytes are stored once per SHA-256, however many URLs
+// point at them.
+export const CACHE_DIR = path.join(os.tmpdir(), "image-downloader-cache");
+const SEARCH_DIR = path.join(CACHE_DIR, "search");
+const URL_DIR = path.join(CACHE_DIR, "urls");
+const BLOB_DIR = path.join(CACHE_DIR, "blobs");
+
+const HOUR_MS = 3600 * 1000;
+const MB = 1024 * 1024;
+
+interface SearchEntry {
+  storedAt: number;
+  candidates: ImageCandidate[];
+}
+
+interface UrlEntry {
+  storedAt: number;
+  sha256: string;
+  extension: string;
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  search: CacheCounters & { entries: number; hitRate: number | null };
+  images: CacheCounters & {
+    urls: number;
+    blobs: number;
+    bytes: number;
+    maxBytes: number;
+    hitRate: number | null;
+  };
+}
+
+// Counted since the server started
+const globalForCache = globalThis as unknown as {
+  cacheCounters?: { search: CacheCounters; images: CacheCounters };
+};
+
+const counters = globalForCache.cacheCounters ?? {
+  search: { hits: 0, misses: 0 },
+  images: { hits: 0, misses: 0 },
+};
+globalForCache.cacheCounters = counters;
+
+function keyHash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function readEntry<T extends { storedAt: number }>(
+  filePath: string,
+  ttlHours: number
+): T | null {
+  try {
+    const entry = JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+    if (Date.now() - entry.storedAt <= ttlHours * HOUR_MS) {
+      return entry;
+    }
+    fs.rmSync(filePath, { force: true });
+  } catch {
+    // Missing or unreadable entries are misses
+  }
+  return null;
+}
+
+// Entries are written to a temporary name first so readers never see a
+// partial file
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
+}
+
+function searchPath(provider: string, queryKey: string): string {
+  return path.join(SEARCH_DIR, `${keyHash(`${provider}\n${queryKey}`)}.json`);
+}
+
+export function getCachedSearch(
+  provider: string,
+  queryKey: string
+): ImageCandidate[] | null {
+  if (!config.searchCacheTtlHours) return null;
+
+  const entry = readEntry<SearchEntry>(
+    searchPath(provider, queryKey),
+    config.searchCacheTtlHours
+  );
+  counters.search[entry ? "hits" : "misses"]++;
+  return entry?.candidates ?? null;
+}
+
+export function cacheSearch(
+  provider: string,
+  queryKey: string,
+  candidates: ImageCandidate[]
+): void {
+  if (!config.searchCacheTtlHours || candidates.length === 0) return;
+
+  try {
+    const entry: SearchEntry = { storedAt: Date.now(), candidates };
+    writeFileAtomic(searchPath(provider, queryKey), JSON.stringify(entry));
+  } catch (err) {
+    console.error("Failed to cache search results:", err);
+  }
+}
+
+function urlPath(url: string): string {
+  return path.join(URL_DIR, `${keyHash(url)}.json`);
+}
+
+function blobPath(sha256: string): string {
+  return path.join(BLOB_DIR, `${sha256}.bin`);
+}
+
+export function getCachedImage(
+  url: string
+): { buffer: Buffer; extension: string } | null {
+  if (!config.imageCacheTtlHours) return null;
+
+  const entry = readEntry<UrlEntry>(urlPath(url), config.imageCacheTtlHours);
+  let buffer: Buffer | null = null;
+  if (entry) {
+    try {
+      buffer = fs.readFileSync(blobPath(entry.sha256));
+      // Recently used blobs are the last to be evicted
+      const now = new Date();
+      fs.utimesSync(blobPath(entry.sha256), now, now);
+    } catch {
+      buffer = null;
+    }
+  }
+
+  counters.images[buffer ? "hits" : "misses"]++;
+  return entry && buffer ? { buffer, extension: entry.extension } : null;
+}
+
+export function cacheImage(
+  url: string,
+  buffer: Buffer,
+  extension: string
+): void {
+  if (!config.imageCacheTtlHours) return;
+
+  try {
+    const sha256 = crypto.createHash("sha256").update(buffer).digest("hex");
+    if (!fs.existsSync(blobPath(sha256))) {
+      writeFileAtomic(blobPath(sha256), buffer);
+    }
+    const entry: UrlEntry = { storedAt: Date.now(), sha256, extension };
+    writeFileAtomic(urlPath(url), JSON.stringify(entry));
+  } catch (err) {
+    console.error("Failed to cache image:", err);
+  }
+}
+
+function listFiles(dir: string): { filePath: string; stats: fs.Stats }[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).flatMap((entry) => {
+    const filePath = path.join(dir, entry);
+    try {
+      return [{ filePath, stats: fs.statSync(filePath) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function hitRate({ hits, misses }: CacheCounters): number | null {
+  return hits + misses > 0 ? hits / (hits + misses) : null;
+}
+
+export function getCacheStats(): CacheStats {
+  const blobs = listFiles(BLOB_DIR);
+  return {
+    search: {
+      ...counters.search,
+      entries: listFiles(SEARCH_DIR).length,
+      hitRate: hitRate(counters.search),
+    },
+    images: {
+      ...counters.images,
+      urls: listFiles(URL_DIR).length,
+      blobs: blobs.length,
+      bytes: blobs.reduce((total, { stats }) => total + stats.size, 0),
+      maxBytes: config.imageCacheMb * MB,
+      hitRate: hitRate(counters.images),
+    },
+  };
+}
+
+// Drops expired entries, blobs no URL points at any more, then the least
+// recently used blobs while the cache is over its size limit
+export function pruneCache(now = Date.now()): { removed: number } {
+  let removed = 0;
+  const remove = (filePath: string) => {
+    fs.rmSync(filePath, { force: true });
+    removed++;
+  };
+
+  for (const { filePath, stats } of listFiles(SEARCH_DIR)) {
+    if (now - stats.mtimeMs > config.searchCacheTtlHours * HOUR_MS) {
+      remove(filePath);
+    }
+  }
+
+  const referenced = new Set<string>();
+  for (const { filePath, stats } of listFiles(URL_DIR)) {
+    if (now - stats.mtimeMs > config.imageCacheTtlHours * HOUR_MS) {
+      remove(filePath);
+      continue;
+    }
+    try {
+      referenced.add(
+        (JSON.parse(fs.readFileSync(filePath, "utf8")) as UrlEntry).sha256
+      );
+    } catch {
+      remove(filePath);
+    }
+  }
+
+  const blobs = listFiles(BLOB_DIR).filter(({ filePath }) => {
+    if (referenced.has(path.basename(filePath, ".bin"))) return true;
+    remove(filePath);
+    return false;
+  });
+
+  // URL entries pointing at an evicted blob become misses
+  if (config.imageCacheMb) {
+    let total = blobs.reduce((sum, { stats }) => sum + stats.size, 0);
+    blobs.sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs);
+    for (const { filePath, stats } of blobs) {
+      if (total <= config.imageCacheMb * MB) break;
+      remove(filePath);
+      total -= stats.size;
+    }
+  }
+
+  return { removed };
+}
+
+export function clearCache(): void {
+  fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+  counters.search = { hits: 0, misses: 0 };
+  counters.images = { hits: 0, misses: 0 };
+}
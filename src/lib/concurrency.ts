@@ -0,0 +1,84 @@
+export interface LimiterOptions {
+  concurrency: number;
+  // Minimum time between the start of two tasks
+  minIntervalMs?: number;
+}
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter({
+  concurrency,
+  minIntervalMs = 0,
+}: LimiterOptions): Limiter {
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let nextStartAt = 0;
+
+  const acquire = async () => {
+    if (active >= Math.max(1, concurrency)) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+
+    const now = Date.now();
+    const startAt = Math.max(now, nextStartAt);
+    nextStartAt = startAt + minIntervalMs;
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next task
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async (task) => {
+    await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+// One limiter per key (e.g. hostname), created on first use
+export function createKeyedLimiter(
+  options: LimiterOptions
+): (key: string) => Limiter {
+  const limiters = new Map<string, Limiter>();
+
+  return (key) => {
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = createLimiter(options);
+      limiters.set(key, limiter);
+    }
+    return limiter;
+  };
+}
+
+// Runs `worker` over every item with at most `concurrency` in flight
+export async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(Math.max(1, concurrency), items.length) },
+    async () => {
+      while (next < items.length) {
+        await worker(items[next++]);
+      }
+    }
+  );
+  await Promise.all(runners);
+}
@@ -0,0 +1,41 @@
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Server-side tuning, overridable through environment variables
+export const config = {
+  // Rows processed at once when a job doesn't ask for a specific number
+  defaultRowConcurrency: envInt("ROW_CONCURRENCY", 4),
+  maxRowConcurrency: envInt("MAX_ROW_CONCURRENCY", 16),
+  // Bing searches in flight at once, and the minimum gap between them
+  searchConcurrency: envInt("SEARCH_CONCURRENCY", 2),
+  searchIntervalMs: envInt("SEARCH_INTERVAL_MS", 500),
+  // Image downloads per destination host
+  downloadConcurrencyPerHost: envInt("DOWNLOAD_CONCURRENCY_PER_HOST", 2),
+  downloadIntervalMsPerHost: envInt("DOWNLOAD_INTERVAL_MS_PER_HOST", 250),
+  // Downloads are cut off beyond this size, in MB
+  maxDownloadMb: envInt("MAX_DOWNLOAD_MB", 20),
+  // Further attempts after a rate limit, timeout or network error in a
+  // search or download, with exponential backoff from the base delay. A
+  // Retry-After longer than the maximum delay fails at once.
+  retryAttempts: envInt("RETRY_ATTEMPTS", 3),
+  retryBaseDelayMs: envInt("RETRY_BASE_DELAY_MS", 500),
+  retryMaxDelayMs: envInt("RETRY_MAX_DELAY_MS", 30000),
+  // How long a finished archive can be downloaded; failed, abandoned and
+  // delivered jobs are kept this long after their last update
+  exportTtlHours: envInt("EXPORT_TTL_HOURS", 24),
+  cleanupIntervalMinutes: envInt("CLEANUP_INTERVAL_MINUTES", 15),
+  // Disk quotas for job files and archives in MB; 0 means unlimited
+  storageQuotaMb: envInt("STORAGE_QUOTA_MB", 0),
+  userStorageQuotaMb: envInt("USER_STORAGE_QUOTA_MB", 0),
+  // How long search results and downloaded images are reused by later
+  // jobs, in hours; 0 turns that cache off
+  searchCacheTtlHours: envInt("SEARCH_CACHE_TTL_HOURS", 24 * 7),
+  imageCacheTtlHours: envInt("IMAGE_CACHE_TTL_HOURS", 24 * 30),
+  // Size limit for cached images in MB; 0 means unlimited
+  imageCacheMb: envInt("IMAGE_CACHE_MB", 1024),
+  // Images of different rows whose perceptual hashes differ in at most this
+  // many of 64 bits are flagged as near-duplicates
+  similarImageDistance: envInt("SIMILAR_IMAGE_DISTANCE", 6),
+};
@@ -0,0 +1,19 @@
+import { createLocalDestination } from "./local";
+import { createS3Destination } from "./s3";
+import type { ExportDestination } from "./types";
+
+export type { ExportDestination } from "./types";
+
+// Exports without a destination stay on this server for download
+const destinations: ExportDestination[] = [
+  createS3Destination(),
+  createLocalDestination(),
+];
+
+export function listDestinations(): ExportDestination[] {
+  return destinations;
+}
+
+export function getDestination(name: string): ExportDestination | undefined {
+  return destinations.find((destination) => destination.name === name);
+}
@@ -0,0 +1,31 @@
+import fs from "fs";
+import path from "path";
+import type { ExportDestination } from "./types";
+
+export interface LocalDestinationOptions {
+  directory?: string;
+}
+
+// A directory on this machine, e.g. an NFS mount shared with other systems
+export function createLocalDestination({
+  directory = process.env.EXPORT_LOCAL_DIR,
+}: LocalDestinationOptions = {}): ExportDestination {
+  return {
+    name: "local",
+    label: "Shared folder",
+    isConfigured: () => !!directory,
+    async deliver(filePath, key) {
+      if (!directory) {
+        throw new Error("EXPORT_LOCAL_DIR is not set");
+      }
+
+      const target = path.join(directory, path.basename(key));
+      await fs.promises.mkdir(directory, { recursive: true });
+      // Copy under a temporary name so readers never see a partial file
+      const temporary = `${target}.part`;
+      await fs.promises.copyFile(filePath, temporary);
+      await fs.promises.rename(temporary, target);
+      return target;
+    },
+  };
+}
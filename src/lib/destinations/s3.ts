@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import fs from "fs";
+import { serviceHttp } from "../outbound";
+import type { ExportDestination } from "./types";
+
+export interface S3DestinationOptions {
+  // Custom endpoint for S3-compatible stores such as MinIO; path-style
+  // addressing is used when set
+  endpoint?: string;
+  region?: string;
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  prefix?: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+// S3 wants RFC 3986 encoding for each path segment
+function encodeKey(key: string): string {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join("/");
+}
+
+// Builds the Signature Version 4 Authorization header for a PUT
+function signS3Put({
+  url,
+  region,
+  accessKeyId,
+  secretAccessKey,
+  payloadHash,
+  date = new Date(),
+}: {
+  url: URL;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  payloadHash: string;
+  date?: Date;
+}): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${region}/s3/aws4_request`;
+  const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+
+  const canonicalRequest = [
+    "PUT",
+    url.pathname,
+    "",
+    `host:${url.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    "",
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), "s3"),
+    "aws4_request"
+  );
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest("hex");
+
+  return {
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export function createS3Destination({
+  endpoint = process.env.S3_ENDPOINT,
+  region = process.env.S3_REGION || "us-east-1",
+  bucket = process.env.S3_BUCKET,
+  accessKeyId = process.env.S3_ACCESS_KEY_ID,
+  secretAccessKey = process.env.S3_SECRET_ACCESS_KEY,
+  prefix = process.env.S3_PREFIX ?? "",
+}: S3DestinationOptions = {}): ExportDestination {
+  return {
+    name: "s3",
+    label: endpoint ? "S3-compatible bucket" : "Amazon S3",
+    isConfigured: () => !!(bucket && accessKeyId && secretAccessKey),
+    async deliver(filePath, key) {
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error("S3 bucket and credentials are not configured");
+      }
+
+      const objectKey = encodeKey(`${prefix}${key}`);
+      const url = endpoint
+        ? new URL(`${endpoint.replace(/\/$/, "")}/${bucket}/${objectKey}`)
+        : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${objectKey}`);
+
+      const payloadHash = await hashFile(filePath);
+      const { size } = await fs.promises.stat(filePath);
+
+      await serviceHttp.put(url.toString(), fs.createReadStream(filePath), {
+        headers: {
+          ...signS3Put({
+            url,
+            region,
+            accessKeyId,
+            secretAccessKey,
+            payloadHash,
+          }),
+          "Content-Length": String(size),
+          "Content-Type": "application/octet-stream",
+        },
+        maxBodyLength: Infinity,
+        timeout: 10 * 60 * 1000,
+      });
+
+      return `s3://${bucket}/${prefix}${key}`;
+    },
+  };
+}
@@ -0,0 +1,8 @@
+export interface ExportDestination {
+  name: string;
+  label: string;
+  isConfigured(): boolean;
+  // Copies the finished export to the destination under `key` and returns
+  // where it ended up
+  deliver(filePath: string, key: string): Promise<string>;
+}
@@ -0,0 +1,59 @@
+import { cacheImage, getCachedImage } from "./cache";
+import { config } from "./config";
+import { createKeyedLimiter } from "./concurrency";
+import { FORMAT_EXTENSIONS, readImageInfo } from "./imageInfo";
+import { fetchError, withRetry } from "./retry";
+import { checkPublicUrl, fetchPublicFile } from "./safeFetch";
+
+const hostLimiter = createKeyedLimiter({
+  concurrency: config.downloadConcurrencyPerHost,
+  minIntervalMs: config.downloadIntervalMsPerHost,
+});
+
+// Downloads an image, naming the format after the file's own bytes rather
+// than what the server claims. Transient failures are retried; what is
+// finally thrown is a FetchError with a reason fit to show on the row.
+// Served from the image cache when another job already fetched the URL.
+export async function downloadImage(
+  url: string
+): Promise<{ buffer: Buffer; extension: string }> {
+  // Blocked URLs are refused even if an older version cached them
+  const { hostname } = checkPublicUrl(url);
+
+  const cached = getCachedImage(url);
+  if (cached) {
+    return cached;
+  }
+
+  const { buffer, contentType } = await withRetry(
+    () =>
+      hostLimiter(hostname)(() =>
+        fetchPublicFile(url, {
+          maxBytes: config.maxDownloadMb * 1024 * 1024,
+          timeoutMs: 15000,
+          headers: { Accept: "image/*" },
+        })
+      ),
+    hostname
+  );
+
+  if (buffer.length < 1000) {
+    throw fetchError(
+      "invalid_image",
+      "Downloaded file is too small to be an image"
+    );
+  }
+
+  const info = readImageInfo(buffer);
+  if (!info) {
+    const type = contentType.split(";")[0].trim();
+    throw fetchError(
+      "invalid_image",
+      `Not an image${type ? ` (received ${type})` : ""}`
+    );
+  }
+
+  const extension = FORMAT_EXTENSIONS[info.format];
+  cacheImage(url, buffer, extension);
+  return { buffer, extension };
+}
@@ -0,0 +1,86 @@
+import fs from "fs";
+import { Readable } from "stream";
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Parses a single "bytes=" range. Returns null for no (or an unsupported
+// multi-part) range, and "unsatisfiable" when it lies outside the file.
+export function parseRange(
+  header: string | null,
+  size: number
+): ByteRange | null | "unsatisfiable" {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, first, last] = match;
+  if (!first && !last) return null;
+
+  let start: number;
+  let end: number;
+  if (!first) {
+    // "bytes=-500" is the last 500 bytes
+    start = Math.max(size - parseInt(last, 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(first, 10);
+    end = last ? Math.min(parseInt(last, 10), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return "unsatisfiable";
+  return { start, end };
+}
+
+// Streams a file from disk, answering Range requests with 206 so
+// interrupted downloads can resume where they stopped
+export function streamFile(
+  request: Request,
+  filePath: string,
+  headers: Record<string, string>
+): Response {
+  const stats = fs.statSync(filePath);
+  const etag = `"${stats.size.toString(16)}-${Math.floor(
+    stats.mtimeMs
+  ).toString(16)}"`;
+  const baseHeaders: Record<string, string> = {
+    ...headers,
+    "Accept-Ranges": "bytes",
+    ETag: etag,
+    "Last-Modified": stats.mtime.toUTCString(),
+  };
+
+  // A resumed download of a file that has since been rebuilt starts over
+  const ifRange = request.headers.get("if-range");
+  const range =
+    ifRange && ifRange !== etag
+      ? null
+      : parseRange(request.headers.get("range"), stats.size);
+
+  if (range === "unsatisfiable") {
+    return new Response(null, {
+      status: 416,
+      headers: { ...baseHeaders, "Content-Range": `bytes */${stats.size}` },
+    });
+  }
+
+  const { start, end } = range ?? { start: 0, end: stats.size - 1 };
+  const body =
+    stats.size === 0
+      ? null
+      : (Readable.toWeb(
+          fs.createReadStream(filePath, { start, end })
+        ) as ReadableStream<Uint8Array>);
+
+  return new Response(body, {
+    status: range ? 206 : 200,
+    headers: {
+      ...baseHeaders,
+      "Content-Length": String(stats.size === 0 ? 0 : end - start + 1),
+      ...(range
+        ? { "Content-Range": `bytes ${start}-${end}/${stats.size}` }
+        : {}),
+    },
+  });
+}
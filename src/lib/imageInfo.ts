@@ -0,0 +1,239 @@
+export type ImageFormat =
+  | "jpeg"
+  | "png"
+  | "gif"
+  | "webp"
+  | "bmp"
+  | "avif"
+  | "heic"
+  | "svg";
+
+export interface ImageInfo {
+  format: ImageFormat;
+  // Unknown for formats without a fixed size (SVG)
+  width?: number;
+  height?: number;
+  animated: boolean;
+}
+
+export const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: ".jpg",
+  png: ".png",
+  gif: ".gif",
+  webp: ".webp",
+  bmp: ".bmp",
+  avif: ".avif",
+  heic: ".heic",
+  svg: ".svg",
+};
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.toString("latin1", start, end);
+}
+
+function readPng(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 24 || ascii(buffer, 12, 16) !== "IHDR") return null;
+
+  // APNG declares its frames in an acTL chunk before the image data
+  let animated = false;
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = ascii(buffer, offset + 4, offset + 8);
+    if (type === "acTL") animated = true;
+    if (type === "IDAT" || type === "IEND") break;
+    offset += 12 + length;
+  }
+
+  return {
+    format: "png",
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    animated,
+  };
+}
+
+function countGifFrames(buffer: Buffer): number {
+  let offset = 13;
+  const flags = buffer[10];
+  if (flags & 0x80) {
+    offset += 3 * (1 << ((flags & 0x07) + 1));
+  }
+
+  const skipSubBlocks = () => {
+    while (offset < buffer.length && buffer[offset] !== 0) {
+      offset += buffer[offset] + 1;
+    }
+    offset++;
+  };
+
+  let frames = 0;
+  while (offset < buffer.length) {
+    const block = buffer[offset];
+    if (block === 0x2c) {
+      frames++;
+      if (frames > 1) break;
+      const localFlags = buffer[offset + 9];
+      offset += 10;
+      if (localFlags & 0x80) {
+        offset += 3 * (1 << ((localFlags & 0x07) + 1));
+      }
+      offset++; // LZW minimum code size
+      skipSubBlocks();
+    } else if (block === 0x21) {
+      offset += 2;
+      skipSubBlocks();
+    } else {
+      break;
+    }
+  }
+  return frames;
+}
+
+function readGif(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 13) return null;
+  return {
+    format: "gif",
+    width: buffer.readUInt16LE(6),
+    height: buffer.readUInt16LE(8),
+    animated: countGifFrames(buffer) > 1,
+  };
+}
+
+function readJpeg(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = buffer[offset + 1];
+    // Start-of-frame markers carry the dimensions; C4, C8 and CC don't
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        format: "jpeg",
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+        animated: false,
+      };
+    }
+
+    if (
+      marker === 0xd8 ||
+      marker === 0x01 ||
+      (marker >= 0xd0 && marker <= 0xd7)
+    ) {
+      offset += 2;
+    } else {
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+function readWebp(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 30) return null;
+  const chunk = ascii(buffer, 12, 16);
+
+  if (chunk === "VP8 ") {
+    return {
+      format: "webp",
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      animated: false,
+    };
+  }
+
+  if (chunk === "VP8L") {
+    const b0 = buffer[21];
+    const b1 = buffer[22];
+    const b2 = buffer[23];
+    const b3 = buffer[24];
+    return {
+      format: "webp",
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+      animated: false,
+    };
+  }
+
+  if (chunk === "VP8X") {
+    return {
+      format: "webp",
+      width: 1 + buffer.readUIntLE(24, 3),
+      height: 1 + buffer.readUIntLE(27, 3),
+      animated: (buffer[20] & 0x02) !== 0,
+    };
+  }
+
+  return null;
+}
+
+function readBmp(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 26) return null;
+  return {
+    format: "bmp",
+    width: buffer.readInt32LE(18),
+    height: Math.abs(buffer.readInt32LE(22)),
+    animated: false,
+  };
+}
+
+// AVIF and HEIC are ISO-BMFF files; the image size lives in an `ispe` box
+function readHeif(buffer: Buffer): ImageInfo | null {
+  const brands = ascii(buffer, 8, Math.min(buffer.length, 64));
+  const format: ImageFormat | null = /avi[fs]/.test(brands)
+    ? "avif"
+    : /hei[cx]|mif1/.test(brands)
+    ? "heic"
+    : null;
+  if (!format) return null;
+
+  const ispe = buffer.indexOf("ispe", 0, "latin1");
+  const hasSize = ispe !== -1 && ispe + 16 <= buffer.length;
+
+  return {
+    format,
+    width: hasSize ? buffer.readUInt32BE(ispe + 8) : undefined,
+    height: hasSize ? buffer.readUInt32BE(ispe + 12) : undefined,
+    animated: brands.includes("avis"),
+  };
+}
+
+function readSvg(buffer: Buffer): ImageInfo | null {
+  const head = buffer.toString("utf-8", 0, 1024).trimStart().toLowerCase();
+  if (
+    head.startsWith("<svg") ||
+    (head.startsWith("<?xml") && head.includes("<svg"))
+  ) {
+    return { format: "svg", animated: false };
+  }
+  return null;
+}
+
+// Identifies an image from its leading bytes rather than any declared
+// content type, and reads its dimensions from the header
+export function readImageInfo(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 12) return null;
+
+  if (buffer.readUInt32BE(0) === 0x89504e47) return readPng(buffer);
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") {
+    return readGif(buffer);
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return readJpeg(buffer);
+  }
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") {
+    return readWebp(buffer);
+  }
+  if (ascii(buffer, 0, 2) === "BM") return readBmp(buffer);
+  if (ascii(buffer, 4, 8) === "ftyp") return readHeif(buffer);
+  return readSvg(buffer);
+}
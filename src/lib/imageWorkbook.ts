@@ -0,0 +1,210 @@
+import { writeArchive, type ArchiveEntry } from "./archive";
+
+// SheetJS can't write pictures, so workbooks with embedded images are
+// assembled from the raw SpreadsheetML parts instead
+
+export interface WorkbookImage {
+  // PNG bytes
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ImageWorkbookRow {
+  cells: (string | number)[];
+  // Placed in the columns after the cells
+  images: WorkbookImage[];
+}
+
+const EMU_PER_PIXEL = 9525;
+const PADDING = 4;
+
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_PKG_REL =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const NS_DRAWING =
+  "http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing";
+const NS_A = "http://schemas.openxmlformats.org/drawingml/2006/main";
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 → A, 25 → Z, 26 → AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(ref: string, value: string | number): string {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    String(value)
+  )}</t></is></c>`;
+}
+
+function relationshipsXml(targets: { type: string; target: string }[]) {
+  const items = targets
+    .map(
+      ({ type, target }, i) =>
+        `<Relationship Id="rId${
+          i + 1
+        }" Type="${NS_REL}/${type}" Target="${target}"/>`
+    )
+    .join("");
+  return `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">${items}</Relationships>`;
+}
+
+function pictureXml(
+  id: number,
+  column: number,
+  row: number,
+  image: WorkbookImage
+): string {
+  const cx = image.width * EMU_PER_PIXEL;
+  const cy = image.height * EMU_PER_PIXEL;
+  const offset = PADDING * EMU_PER_PIXEL;
+  return (
+    `<xdr:oneCellAnchor>` +
+    `<xdr:from><xdr:col>${column}</xdr:col><xdr:colOff>${offset}</xdr:colOff>` +
+    `<xdr:row>${row}</xdr:row><xdr:rowOff>${offset}</xdr:rowOff></xdr:from>` +
+    `<xdr:ext cx="${cx}" cy="${cy}"/>` +
+    `<xdr:pic><xdr:nvPicPr><xdr:cNvPr id="${id + 1}" name="Picture ${id}"/>` +
+    `<xdr:cNvPicPr><a:picLocks noChangeAspect="1"/></xdr:cNvPicPr></xdr:nvPicPr>` +
+    `<xdr:blipFill><a:blip r:embed="rId${id}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>` +
+    `<xdr:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr></xdr:pic>` +
+    `<xdr:clientData/></xdr:oneCellAnchor>`
+  );
+}
+
+// Writes a single-sheet .xlsx with a header row, one row per entry and its
+// images anchored in the cells to the right of the values
+export async function writeImageWorkbook(
+  outputPath: string,
+  headers: string[],
+  rows: ImageWorkbookRow[],
+  { sheetName = "Images", imageSize = 120 } = {}
+): Promise<string> {
+  const imageColumns = Math.max(1, ...rows.map((row) => row.images.length));
+  const firstImageColumn = headers.length;
+  const rowHeight = (imageSize + PADDING * 2) * 0.75;
+
+  const allHeaders = [
+    ...headers,
+    ...Array.from({ length: imageColumns }, (_, i) =>
+      imageColumns === 1 ? "image" : `image_${i + 1}`
+    ),
+  ];
+
+  const sheetRows: string[] = [
+    `<row r="1">${allHeaders
+      .map((header, col) => cellXml(`${columnName(col)}1`, header))
+      .join("")}</row>`,
+  ];
+  const pictures: string[] = [];
+  const media: ArchiveEntry[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cells = row.cells
+      .map((value, col) => cellXml(`${columnName(col)}${rowNumber}`, value))
+      .join("");
+    const height =
+      row.images.length > 0 ? ` ht="${rowHeight}" customHeight="1"` : "";
+    sheetRows.push(`<row r="${rowNumber}"${height}>${cells}</row>`);
+
+    row.images.forEach((image, i) => {
+      const id = media.length + 1;
+      media.push({ name: `xl/media/image${id}.png`, content: image.buffer });
+      pictures.push(pictureXml(id, firstImageColumn + i, rowNumber - 1, image));
+    });
+  });
+
+  const imageColumnWidth = (imageSize + PADDING * 2) / 7;
+  const cols =
+    `<cols><col min="1" max="${headers.length}" width="18" customWidth="1"/>` +
+    `<col min="${firstImageColumn + 1}" max="${
+      firstImageColumn + imageColumns
+    }" width="${imageColumnWidth.toFixed(2)}" customWidth="1"/></cols>`;
+
+  const entries: ArchiveEntry[] = [
+    {
+      name: "[Content_Types].xml",
+      content:
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Default Extension="png" ContentType="image/png"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+        `<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>` +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: relationshipsXml([
+        { type: "officeDocument", target: "xl/workbook.xml" },
+      ]),
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        `${XML_HEADER}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+        `<sheets><sheet name="${escapeXml(
+          sheetName
+        )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: relationshipsXml([
+        { type: "worksheet", target: "worksheets/sheet1.xml" },
+      ]),
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content:
+        `${XML_HEADER}<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+        `${cols}<sheetData>${sheetRows.join("")}</sheetData>` +
+        `<drawing r:id="rId1"/></worksheet>`,
+    },
+    {
+      name: "xl/worksheets/_rels/sheet1.xml.rels",
+      content: relationshipsXml([
+        { type: "drawing", target: "../drawings/drawing1.xml" },
+      ]),
+    },
+    {
+      name: "xl/drawings/drawing1.xml",
+      content:
+        `${XML_HEADER}<xdr:wsDr xmlns:xdr="${NS_DRAWING}" xmlns:a="${NS_A}" xmlns:r="${NS_REL}">` +
+        `${pictures.join("")}</xdr:wsDr>`,
+    },
+    {
+      name: "xl/drawings/_rels/drawing1.xml.rels",
+      content: relationshipsXml(
+        media.map((entry) => ({
+          type: "image",
+          target: `../media/${entry.name.split("/").pop()}`,
+        }))
+      ),
+    },
+    ...media,
+  ];
+
+  return writeArchive(outputPath, entries);
+}
@@ -0,0 +1,23 @@
+import { getUserId } from "../auth";
+import { readJob } from "./store";
+import type { Job } from "./types";
+
+export type JobLookup = { job: Job } | { error: string; status: number };
+
+// Other users' jobs look missing
+export function loadJobForUser(id: string, userId: string): JobLookup {
+  const job = readJob(id);
+  if (!job || job.ownerId !== userId) {
+    return { error: "Job not found", status: 404 };
+  }
+  return { job };
+}
+
+// Loads a job for the signed-in user
+export async function loadOwnedJob(id: string): Promise<JobLookup> {
+  const userId = await getUserId();
+  if (!userId) {
+    return { error: "Sign in to continue", status: 401 };
+  }
+  return loadJobForUser(id, userId);
+}
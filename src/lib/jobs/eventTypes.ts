@@ -0,0 +1,32 @@
+import type { JobStatus, ProgressItem } from "./types";
+
+// Messages on /api/jobs/{id}/events, shared by the route and the page. Each
+// is sent as a Server-Sent Event named after its type, with the object as
+// JSON data.
+export type JobEvent =
+  // The whole job; sent on connect and when a resume can't be replayed
+  | { type: "snapshot"; status: JobStatus; items: ProgressItem[] }
+  | { type: "row-started"; index: number; item: ProgressItem }
+  // A row's result changed, whether from the worker or a review edit
+  | { type: "row-finished"; index: number; item: ProgressItem }
+  | {
+      type: "job-complete";
+      downloadUrl?: string;
+      location?: string;
+      expiresAt?: string;
+      // Images identical to another one in the export
+      duplicates?: number;
+    }
+  | { type: "job-review" }
+  | { type: "job-failed"; message: string }
+  // Keeps proxies from closing an idle stream; never stored for resume
+  | { type: "heartbeat" };
+
+export type JobEventType = JobEvent["type"];
+
+// The stream ends after any of these
+export const TERMINAL_EVENTS: JobEventType[] = [
+  "job-complete",
+  "job-review",
+  "job-failed",
+];
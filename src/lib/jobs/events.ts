@@ -0,0 +1,140 @@
+import { EventEmitter } from "events";
+import type { JobEvent } from "./eventTypes";
+import type { Job } from "./types";
+
+export interface LoggedEvent {
+  // "<epoch>.<sequence>", sent as the SSE id for Last-Event-ID resume
+  id: string;
+  event: JobEvent;
+}
+
+interface EventLog {
+  seq: number;
+  events: LoggedEvent[];
+}
+
+// Enough to cover a client that was offline for a while on a large job
+const EVENT_LOG_SIZE = 2000;
+
+// Kept on globalThis so every route bundle (and dev reloads) share one emitter
+const globalForEvents = globalThis as unknown as {
+  jobEvents?: EventEmitter;
+  jobEventLogs?: Map<string, EventLog>;
+  jobEventEpoch?: string;
+};
+
+const jobEvents = globalForEvents.jobEvents ?? new EventEmitter();
+jobEvents.setMaxListeners(0);
+globalForEvents.jobEvents = jobEvents;
+
+const eventLogs = globalForEvents.jobEventLogs ?? new Map<string, EventLog>();
+globalForEvents.jobEventLogs = eventLogs;
+
+// Changes on every server start, so ids from before a restart never match
+const epoch = (globalForEvents.jobEventEpoch ??= Date.now().toString(36));
+
+function getLog(id: string): EventLog {
+  let log = eventLogs.get(id);
+  if (!log) {
+    log = { seq: 0, events: [] };
+    eventLogs.set(id, log);
+  }
+  return log;
+}
+
+function appendEvent(id: string, event: JobEvent): void {
+  const log = getLog(id);
+  log.seq++;
+  const logged = { id: `${epoch}.${log.seq}`, event };
+  log.events.push(logged);
+  if (log.events.length > EVENT_LOG_SIZE) {
+    log.events.splice(0, log.events.length - EVENT_LOG_SIZE);
+  }
+  jobEvents.emit(id, logged);
+}
+
+// The event that ends a stream for a job in this state, if any
+export function terminalEvent(job: Job): JobEvent | null {
+  if (job.status === "completed") {
+    return {
+      type: "job-complete",
+      downloadUrl: job.downloadUrl,
+      location: job.exportLocation,
+      expiresAt: job.expiresAt,
+      duplicates: job.duplicateImages,
+    };
+  }
+  if (job.status === "review") return { type: "job-review" };
+  if (job.status === "failed") {
+    return { type: "job-failed", message: job.error || "An error occurred" };
+  }
+  return null;
+}
+
+export function snapshotEvent(job: Job): JobEvent {
+  return { type: "snapshot", status: job.status, items: job.progress };
+}
+
+// Publishes a change to the job as a whole, such as a new status
+export function publishJob(job: Job): void {
+  appendEvent(job.id, snapshotEvent(job));
+
+  const terminal = terminalEvent(job);
+  if (terminal) {
+    appendEvent(job.id, terminal);
+    // Anyone reconnecting now gets a snapshot instead
+    getLog(job.id).events = [];
+  }
+}
+
+// Publishes a change to a single row
+export function publishRow(job: Job, index: number): void {
+  const item = job.progress[index];
+  appendEvent(job.id, {
+    type: item.status === "downloading" ? "row-started" : "row-finished",
+    index,
+    item,
+  });
+}
+
+// Id of the latest event, to label a snapshot taken now
+export function currentEventId(id: string): string {
+  return `${epoch}.${eventLogs.get(id)?.seq ?? 0}`;
+}
+
+// Events after `lastEventId`, or null when they are no longer all logged.
+// Also null once the log was cleared after a terminal event, even for a
+// client that saw it, so the stream resends it with a snapshot and ends.
+export function eventsSince(
+  id: string,
+  lastEventId: string
+): LoggedEvent[] | null {
+  const [lastEpoch, rawSeq] = lastEventId.split(".");
+  const lastSeq = Number(rawSeq);
+  const log = eventLogs.get(id);
+  if (lastEpoch !== epoch || !Number.isInteger(lastSeq) || !log) return null;
+  if (lastSeq > log.seq || log.events.length === 0) return null;
+  if (lastSeq === log.seq) return [];
+
+  const missed = log.events.filter(
+    (logged) => Number(logged.id.split(".")[1]) > lastSeq
+  );
+  // The first missed event has already been trimmed away
+  const firstSeq = Number(missed[0]?.id.split(".")[1]);
+  return firstSeq === lastSeq + 1 ? missed : null;
+}
+
+// Drops the event log of a deleted job
+export function forgetJobEvents(id: string): void {
+  eventLogs.delete(id);
+}
+
+export function subscribeJob(
+  id: string,
+  listener: (logged: LoggedEvent) => void
+): () => void {
+  jobEvents.on(id, listener);
+  return () => {
+    jobEvents.off(id, listener);
+  };
+}
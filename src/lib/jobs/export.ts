@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import { getExportPath, writeArchive, type ArchiveEntry } from "../archive";
+import { getDestination } from "../destinations";
+import {
+  writeImageWorkbook,
+  type ImageWorkbookRow,
+  type WorkbookImage,
+} from "../imageWorkbook";
+import { createThumbnail } from "../processing";
+import { archiveFileName, rowImagePath } from "./images";
+import { manifestFiles } from "./manifest";
+import type { ExportFormat, Job } from "./types";
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  "zip",
+  "tar.gz",
+  "folders",
+  "xlsx",
+];
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  zip: ".zip",
+  "tar.gz": ".tar.gz",
+  folders: ".zip",
+  xlsx: ".xlsx",
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  zip: "application/zip",
+  "tar.gz": "application/gzip",
+  folders: "application/zip",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const THUMBNAIL_SIZE = 120;
+
+export function exportExtension(format: ExportFormat = "zip"): string {
+  return EXPORT_EXTENSIONS[format];
+}
+
+export function getJobExportPath(job: Job): string {
+  return getExportPath(job.id, exportExtension(job.options.exportFormat));
+}
+
+function archiveEntries(job: Job): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  job.progress.forEach((item, index) => {
+    for (const image of item.images ?? []) {
+      const filePath = rowImagePath(job, image.fileName);
+      if (filePath && fs.existsSync(filePath)) {
+        entries.push({
+          name: archiveFileName(job, index, image),
+          path: filePath,
+        });
+      }
+    }
+  });
+  return [...entries, ...manifestFiles(job)];
+}
+
+const WORKBOOK_HEADERS = [
+  "id",
+  "image_name",
+  "status",
+  "error",
+  "source_url",
+  "file_name",
+];
+
+// One sheet row per input row, with a thumbnail of each saved image
+async function writeJobWorkbook(job: Job, outputPath: string): Promise<void> {
+  const rows: ImageWorkbookRow[] = [];
+
+  for (const [index, item] of job.progress.entries()) {
+    const saved = item.images ?? [];
+    const images: WorkbookImage[] = [];
+    for (const image of saved) {
+      const filePath = rowImagePath(job, image.fileName);
+      if (!filePath || !fs.existsSync(filePath)) continue;
+      try {
+        images.push(await createThumbnail(filePath, THUMBNAIL_SIZE));
+      } catch {
+        // Images sharp can't read are listed without a picture
+      }
+    }
+
+    rows.push({
+      cells: [
+        String(item.id),
+        String(item.image_name),
+        item.status,
+        item.error ?? "",
+        saved.map((image) => image.url).join("\n"),
+        saved.map((image) => archiveFileName(job, index, image)).join("\n"),
+      ],
+      images,
+    });
+  }
+
+  await writeImageWorkbook(outputPath, WORKBOOK_HEADERS, rows, {
+    imageSize: THUMBNAIL_SIZE,
+  });
+}
+
+// Builds the job's export in its chosen format and, when a destination is
+// set, delivers it there. Returns where the export can be fetched from.
+export async function buildExport(
+  job: Job
+): Promise<{ downloadUrl?: string; location?: string; bytes: number }> {
+  const format = job.options.exportFormat ?? "zip";
+  const outputPath = getJobExportPath(job);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+
+  if (format === "xlsx") {
+    await writeJobWorkbook(job, outputPath);
+  } else {
+    await writeArchive(
+      outputPath,
+      archiveEntries(job),
+      format === "tar.gz" ? "tar.gz" : "zip"
+    );
+  }
+
+  const { size } = fs.statSync(outputPath);
+  console.log(`Export created: ${outputPath} (${size} bytes)`);
+
+  const destination = job.options.destination
+    ? getDestination(job.options.destination)
+    : undefined;
+  if (!destination) {
+    return { downloadUrl: `/api/download?id=${job.id}`, bytes: size };
+  }
+
+  const location = await destination.deliver(
+    outputPath,
+    path.basename(outputPath)
+  );
+  try {
+    fs.rmSync(outputPath, { force: true });
+  } catch {
+    // Ignore cleanup errors
+  }
+  return { location, bytes: size };
+}
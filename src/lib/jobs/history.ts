@@ -0,0 +1,34 @@
+import { prisma } from "../prisma";
+import type { Job } from "./types";
+
+// Int column in the Download table
+const MAX_INT = 2 ** 31 - 1;
+
+// Records a finished job in its owner's download history. A retried job
+// updates its existing entry.
+export async function recordDownload(job: Job, bytes: number): Promise<void> {
+  if (!job.ownerId) return;
+
+  const data = {
+    fileName: job.fileName,
+    imageCount: job.progress.reduce(
+      (total, item) => total + (item.images?.length ?? 0),
+      0
+    ),
+    totalSize: Math.min(bytes, MAX_INT),
+    status: job.status,
+    downloadUrl: job.downloadUrl ?? job.exportLocation ?? "",
+    exportFormat: job.options.exportFormat ?? "zip",
+    ...(job.expiresAt ? { expiresAt: new Date(job.expiresAt) } : {}),
+  };
+
+  try {
+    await prisma.download.upsert({
+      where: { id: job.id },
+      create: { id: job.id, userId: job.ownerId, ...data },
+      update: data,
+    });
+  } catch (err) {
+    console.error(`Failed to record download for job ${job.id}:`, err);
+  }
+}
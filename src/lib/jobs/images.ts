@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  buildSearchQuery,
+  DEFAULT_PROVIDERS,
+  searchImages,
+  type ImageCandidate,
+} from "../search";
+import { downloadImage } from "../download";
+import { readImageInfo, type ImageInfo } from "../imageInfo";
+import { perceptualHash } from "../perceptualHash";
+import { isFetchError, type ErrorCategory } from "../retry";
+import { checkImageQuality } from "../quality";
+import { changesPicture, hasProcessing, processImage } from "../processing";
+import { rankCandidates } from "../ranking";
+import { toSafeFileName } from "../validation";
+import { jobImagesDir } from "./store";
+import type { ExcelRow, Job, SavedImage } from "./types";
+
+export interface PreparedImage {
+  buffer: Buffer;
+  extension: string;
+  info: ImageInfo | null;
+  phash?: string;
+}
+
+// File name inside the archive for the n-th (1-based) image of a row
+export function imageFileName(
+  job: Job,
+  rowId: string,
+  n: number,
+  extension: string
+): string {
+  const baseName = toSafeFileName(rowId);
+  if ((job.options.imagesPerRow ?? 1) <= 1) {
+    return `${baseName}${extension}`;
+  }
+  return job.options.imageLayout === "folder"
+    ? `${baseName}/${n}${extension}`
+    : `${baseName}_${n}${extension}`;
+}
+
+// Path of a saved image inside the export; grouped exports put it in a
+// folder named after the row's group column
+export function archiveFileName(
+  job: Job,
+  index: number,
+  image: SavedImage
+): string {
+  if (job.options.exportFormat !== "folders") {
+    return image.fileName;
+  }
+  const group = String(job.rows[index].group ?? "").trim();
+  return `${group ? toSafeFileName(group) : "ungrouped"}/${image.fileName}`;
+}
+
+// Searches with the row's provider first, then the job's fallback order.
+// Providers picked for a retry replace both.
+export async function findRowCandidates(
+  job: Job,
+  row: ExcelRow,
+  providerNames?: string[]
+): Promise<{ provider?: string; candidates: ImageCandidate[] }> {
+  const providers =
+    !providerNames && job.retryProviders
+      ? job.retryProviders
+      : [
+          ...new Set([
+            ...(row.provider ? [String(row.provider).trim()] : []),
+            ...(providerNames ?? job.options.providers ?? DEFAULT_PROVIDERS),
+          ]),
+        ];
+
+  const result = await searchImages(buildSearchQuery(row), providers);
+  if (job.options.ranking === false) {
+    return result;
+  }
+
+  return {
+    provider: result.provider,
+    candidates: rankCandidates(result.candidates, {
+      preferredDomains: job.options.preferredDomains,
+    }),
+  };
+}
+
+// Applies the job's quality checks and processing to image bytes; returns
+// the reason when they can't be used. Images the user picked by hand skip
+// the quality checks.
+export async function prepareImage(
+  job: Job,
+  buffer: Buffer,
+  extension: string,
+  { checkQuality = true } = {}
+): Promise<PreparedImage | { rejection: string }> {
+  const info = readImageInfo(buffer);
+  if (checkQuality) {
+    const rejection = checkImageQuality(buffer, info, job.options.quality);
+    if (rejection) {
+      return { rejection };
+    }
+  }
+
+  if (!hasProcessing(job.options.processing)) {
+    return {
+      buffer,
+      extension,
+      info,
+      phash: (await perceptualHash(buffer)) ?? undefined,
+    };
+  }
+
+  const settings = job.options.processing ?? {};
+  try {
+    const output = await processImage(buffer, extension, settings);
+    return {
+      ...output,
+      info: readImageInfo(output.buffer),
+      phash: (await perceptualHash(output.buffer)) ?? undefined,
+    };
+  } catch (err) {
+    // Formats sharp can't read are kept as they are when only the metadata
+    // was to be stripped
+    if (!changesPicture(settings)) {
+      return {
+        buffer,
+        extension,
+        info,
+        phash: (await perceptualHash(buffer)) ?? undefined,
+      };
+    }
+    return {
+      rejection: `Could not process image: ${
+        err instanceof Error ? err.message : "unknown error"
+      }`,
+    };
+  }
+}
+
+// Downloads one candidate and prepares it for saving. Failed downloads say
+// what kind of failure it was; quality rejections have no category.
+export async function fetchCandidate(
+  job: Job,
+  url: string,
+  options?: { checkQuality?: boolean }
+): Promise<PreparedImage | { rejection: string; category?: ErrorCategory }> {
+  let result;
+  try {
+    result = await downloadImage(url);
+  } catch (err) {
+    return {
+      rejection:
+        err instanceof Error ? err.message : "Failed to download image",
+      category: isFetchError(err) ? err.category : undefined,
+    };
+  }
+  return prepareImage(job, result.buffer, result.extension, options);
+}
+
+export function writeRowImage(
+  job: Job,
+  rowId: string,
+  n: number,
+  image: PreparedImage,
+  url: string
+): SavedImage {
+  const fileName = imageFileName(job, rowId, n, image.extension);
+  const filePath = path.join(jobImagesDir(job.id), fileName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, image.buffer);
+
+  return {
+    fileName,
+    url,
+    width: image.info?.width,
+    height: image.info?.height,
+    bytes: image.buffer.length,
+    sha256: crypto.createHash("sha256").update(image.buffer).digest("hex"),
+    phash: image.phash,
+  };
+}
+
+export function removeRowImage(job: Job, image: SavedImage): void {
+  try {
+    fs.rmSync(path.join(jobImagesDir(job.id), image.fileName), {
+      force: true,
+    });
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+// Resolves a saved image's path, refusing anything outside the job folder
+export function rowImagePath(job: Job, fileName: string): string | null {
+  const imagesDir = jobImagesDir(job.id);
+  const filePath = path.resolve(imagesDir, fileName);
+  return filePath.startsWith(imagesDir + path.sep) ? filePath : null;
+}
@@ -0,0 +1,155 @@
+import * as XLSX from "xlsx";
+import type { ArchiveEntry } from "../archive";
+import { ROW_FIELDS } from "../spreadsheet";
+import { archiveFileName } from "./images";
+import type { Job } from "./types";
+
+export interface ManifestEntry {
+  id: string;
+  image_name: string;
+  status: string;
+  error: string;
+  // Kind of failure, e.g. rate_limited or not_found
+  error_category: string;
+  source_url: string;
+  file_name: string;
+  width: number | "";
+  height: number | "";
+  bytes: number | "";
+  sha256: string;
+  // File name of the first image with identical contents
+  duplicate_of: string;
+  // Images of other rows that look like this one, separated by "; "
+  similar_to: string;
+}
+
+// One entry per saved image; rows without an image get a single entry
+// with the file columns left empty
+export function buildManifest(job: Job): ManifestEntry[] {
+  const entries = job.progress.flatMap<ManifestEntry>((item, index) => {
+    const row = {
+      id: String(item.id),
+      image_name: String(item.image_name),
+      status: item.status,
+      error: item.error ?? "",
+      error_category: item.errorCategory ?? "",
+    };
+
+    if (!item.images || item.images.length === 0) {
+      return [
+        {
+          ...row,
+          source_url: "",
+          file_name: "",
+          width: "",
+          height: "",
+          bytes: "",
+          sha256: "",
+          duplicate_of: "",
+          similar_to: "",
+        },
+      ];
+    }
+
+    return item.images.map((image) => ({
+      ...row,
+      source_url: image.url,
+      file_name: archiveFileName(job, index, image),
+      width: image.width ?? "",
+      height: image.height ?? "",
+      bytes: image.bytes,
+      sha256: image.sha256 ?? "",
+      duplicate_of: "",
+      similar_to: (item.similar ?? [])
+        .filter((similar) => similar.fileName === image.fileName)
+        .map((similar) => {
+          const other = job.progress[similar.index].images?.find(
+            (candidate) => candidate.fileName === similar.otherFileName
+          );
+          return other
+            ? archiveFileName(job, similar.index, other)
+            : similar.otherFileName;
+        })
+        .join("; "),
+    }));
+  });
+
+  const firstByHash = new Map<string, string>();
+  for (const entry of entries) {
+    if (!entry.sha256) continue;
+    const first = firstByHash.get(entry.sha256);
+    if (first) {
+      entry.duplicate_of = first;
+    } else {
+      firstByHash.set(entry.sha256, entry.file_name);
+    }
+  }
+  return entries;
+}
+
+// Saved images whose contents match an earlier image in the same job
+export function countDuplicates(job: Job): number {
+  return buildManifest(job).filter((entry) => entry.duplicate_of).length;
+}
+
+function toWorkbookBuffer(sheets: Record<string, XLSX.WorkSheet>): Buffer {
+  const wb = XLSX.utils.book_new();
+  for (const [name, sheet] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(wb, sheet, name);
+  }
+  return XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+}
+
+// The input rows with each row's outcome appended as extra columns
+export function buildAnnotatedInput(job: Job): Buffer {
+  const rows = job.rows.map((row, index) => {
+    const item = job.progress[index];
+    return {
+      ...row,
+      status: item.status,
+      error: item.error ?? "",
+      files: item.images?.map((image) => image.fileName).join(", ") ?? "",
+      source_urls: item.images?.map((image) => image.url).join(", ") ?? "",
+    };
+  });
+  return toWorkbookBuffer({ Rows: XLSX.utils.json_to_sheet(rows) });
+}
+
+// Failed rows in the input column layout, so they can be fixed and uploaded
+// again as a new job. The error columns are ignored on upload.
+export function buildFailureReport(job: Job): Buffer {
+  const rows = job.rows
+    .map((row, index) => ({ row, item: job.progress[index] }))
+    .filter(({ item }) => item.status === "failed")
+    .map(({ row, item }) => ({
+      ...row,
+      error: item.error ?? "",
+      error_category: item.errorCategory ?? "",
+    }));
+
+  return toWorkbookBuffer({
+    Failures: XLSX.utils.json_to_sheet(rows, {
+      header: [...ROW_FIELDS, "error", "error_category"],
+    }),
+  });
+}
+
+// Files added next to the images in every archive
+export function manifestFiles(job: Job): ArchiveEntry[] {
+  const entries = buildManifest(job);
+  const files: ArchiveEntry[] = [
+    {
+      name: "manifest.csv",
+      content: XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(entries)),
+    },
+    { name: "manifest.json", content: JSON.stringify(entries, null, 2) },
+  ];
+
+  if (job.options.annotatedInput) {
+    files.push({
+      name: "input-annotated.xlsx",
+      content: buildAnnotatedInput(job),
+    });
+  }
+  return files;
+}
@@ -0,0 +1,209 @@
+import { getDestination } from "../destinations";
+import { getProvider } from "../search";
+import { MAX_CANDIDATES } from "../search/types";
+import { parseSpreadsheet, type InputOptions } from "../spreadsheet";
+import type { InvalidRowHandling } from "../validation";
+import { parseWebhookUrl } from "../webhooks";
+import { EXPORT_FORMATS } from "./export";
+import type {
+  ExcelRow,
+  ExportFormat,
+  JobOptions,
+  OutputFormat,
+  ProcessingSettings,
+  QualityConstraints,
+} from "./types";
+
+function formInt(formData: FormData, name: string): number | undefined {
+  const value = parseInt(String(formData.get(name) ?? ""), 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function formList(formData: FormData, name: string): string[] | undefined {
+  const values = String(formData.get(name) ?? "")
+    .split(/[,\s]+/)
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function formProviders(formData: FormData): string[] | undefined {
+  const names = String(formData.get("providers") ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => getProvider(name));
+  return names.length > 0 ? names : undefined;
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+// Settings sent as a JSON object; anything else is rejected with `message`
+function parseJsonObject(
+  raw: FormDataEntryValue,
+  message: string
+): Record<string, unknown> {
+  let data;
+  try {
+    data = JSON.parse(String(raw));
+  } catch {
+    throw new Error(message);
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`${message}: expected a JSON object`);
+  }
+  return data;
+}
+
+// Sent as a JSON object; unknown keys and non-positive numbers are dropped
+function formQuality(formData: FormData): QualityConstraints | undefined {
+  const raw = formData.get("quality");
+  if (!raw) return undefined;
+
+  const data = parseJsonObject(raw, "Invalid quality settings");
+
+  const quality: QualityConstraints = {
+    minWidth: positiveNumber(data.minWidth),
+    minHeight: positiveNumber(data.minHeight),
+    minAspectRatio: positiveNumber(data.minAspectRatio),
+    maxAspectRatio: positiveNumber(data.maxAspectRatio),
+    maxBytes: positiveNumber(data.maxBytes),
+    formats: Array.isArray(data.formats)
+      ? data.formats.map(String).filter(Boolean)
+      : undefined,
+    allowAnimated:
+      typeof data.allowAnimated === "boolean" ? data.allowAnimated : undefined,
+  };
+  return quality;
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = [
+  "original",
+  "jpeg",
+  "png",
+  "webp",
+  "avif",
+];
+const FITS = ["contain", "cover", "inside", "fill"] as const;
+
+function formProcessing(formData: FormData): ProcessingSettings | undefined {
+  const raw = formData.get("processing");
+  if (!raw) return undefined;
+
+  const data = parseJsonObject(raw, "Invalid processing settings");
+
+  const background = String(data.background ?? "").trim();
+  if (background && !/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(background)) {
+    throw new Error("Background must be a hex colour such as #ffffff");
+  }
+
+  const width = positiveNumber(data.width);
+  const height = positiveNumber(data.height);
+  const quality = positiveNumber(data.quality);
+  return {
+    width: width ? Math.round(width) : undefined,
+    height: height ? Math.round(height) : undefined,
+    fit: FITS.find((fit) => fit === data.fit),
+    format: OUTPUT_FORMATS.find((format) => format === data.format),
+    quality: quality ? Math.min(Math.round(quality), 100) : undefined,
+    background: background || undefined,
+    stripMetadata:
+      typeof data.stripMetadata === "boolean" ? data.stripMetadata : undefined,
+  };
+}
+
+function formExportFormat(formData: FormData): ExportFormat | undefined {
+  const format = String(formData.get("exportFormat") ?? "");
+  return EXPORT_FORMATS.find((candidate) => candidate === format);
+}
+
+// Only destinations with their settings in place can be chosen
+function formDestination(formData: FormData): string | undefined {
+  const name = String(formData.get("destination") ?? "").trim();
+  return name && getDestination(name)?.isConfigured() ? name : undefined;
+}
+
+function formPercent(formData: FormData, name: string): number | undefined {
+  const value = formInt(formData, name);
+  return value === undefined ? undefined : Math.min(value, 100);
+}
+
+function formWebhookUrl(formData: FormData): string | undefined {
+  const value = String(formData.get("webhookUrl") ?? "").trim();
+  if (!value) return undefined;
+
+  const url = parseWebhookUrl(value);
+  if (!url) {
+    throw new Error("Webhook URL must be an http or https URL");
+  }
+  return url;
+}
+
+// Reads per-job settings sent alongside the uploaded file
+export function parseJobOptions(formData: FormData): JobOptions {
+  return {
+    concurrency: formInt(formData, "concurrency"),
+    providers: formProviders(formData),
+    quality: formQuality(formData),
+    processing: formProcessing(formData),
+    imagesPerRow: Math.min(
+      formInt(formData, "imagesPerRow") ?? 1,
+      MAX_CANDIDATES
+    ),
+    imageLayout:
+      formData.get("imageLayout") === "folder" ? "folder" : undefined,
+    ranking: formData.get("ranking") === "false" ? false : undefined,
+    preferredDomains: formList(formData, "preferredDomains"),
+    review: formData.get("review") === "true" ? true : undefined,
+    annotatedInput:
+      formData.get("annotatedInput") === "true" ? true : undefined,
+    exportFormat: formExportFormat(formData),
+    destination: formDestination(formData),
+    webhookUrl: formWebhookUrl(formData),
+    webhookFailureThreshold: formPercent(formData, "webhookFailureThreshold"),
+  };
+}
+
+// Reads how the uploaded file should be turned into rows
+export function parseInputOptions(formData: FormData): InputOptions {
+  const sheet = String(formData.get("sheet") ?? "").trim();
+
+  let columnMap: Record<string, string> | undefined;
+  const rawMap = formData.get("columnMap");
+  if (rawMap) {
+    const data = parseJsonObject(rawMap, "Invalid column mapping");
+    if (Object.values(data).some((value) => typeof value !== "string")) {
+      throw new Error("Invalid column mapping: columns must be named by text");
+    }
+    columnMap = data as Record<string, string>;
+  }
+
+  return { sheet: sheet || undefined, columnMap };
+}
+
+export function parseInvalidRowHandling(
+  formData: FormData
+): InvalidRowHandling {
+  const value = String(formData.get("onInvalid") ?? "");
+  return value === "skip" || value === "proceed" ? value : "reject";
+}
+
+// Parses the uploaded file into rows using the sheet and column mapping
+// sent with it
+export async function parseUploadedRows(
+  formData: FormData
+): Promise<{ file: File; rows: ExcelRow[] }> {
+  const file = formData.get("file") as File | null;
+  if (!file) {
+    throw new Error("No file uploaded");
+  }
+
+  const rows = parseSpreadsheet(
+    await file.arrayBuffer(),
+    file.name,
+    parseInputOptions(formData)
+  );
+  return { file, rows };
+}
@@ -0,0 +1,223 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ZIP_DIR } from "../archive";
+import { pruneCache } from "../cache";
+import { config } from "../config";
+import { getJobExportPath } from "./export";
+import { deleteJob, jobDir, JOBS_DIR, listJobs } from "./store";
+import type { Job } from "./types";
+
+const HOUR_MS = 3600 * 1000;
+const MB = 1024 * 1024;
+
+export interface JobUsage {
+  id: string;
+  ownerId?: string;
+  status: Job["status"];
+  bytes: number;
+  expiresAt: string;
+}
+
+export interface StorageUsage {
+  totalBytes: number;
+  quotaBytes: number;
+  userQuotaBytes: number;
+  users: { ownerId: string; bytes: number; jobs: number }[];
+  jobs: JobUsage[];
+  // Archives and work folders that belong to no job
+  orphanBytes: number;
+}
+
+function pathSize(target: string): number {
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(target);
+  } catch {
+    return 0;
+  }
+  if (!stats.isDirectory()) return stats.size;
+
+  return fs
+    .readdirSync(target)
+    .reduce((total, entry) => total + pathSize(path.join(target, entry)), 0);
+}
+
+function jobBytes(job: Job): number {
+  return pathSize(jobDir(job.id)) + pathSize(getJobExportPath(job));
+}
+
+// Downloads expire at their expiresAt; everything else that is no longer
+// running is kept for the same time after its last update
+export function jobExpiry(job: Job): Date | null {
+  if (job.status === "queued" || job.status === "running") return null;
+  if (job.expiresAt) return new Date(job.expiresAt);
+  return new Date(
+    new Date(job.updatedAt).getTime() + config.exportTtlHours * HOUR_MS
+  );
+}
+
+function removeJob(job: Job): void {
+  try {
+    fs.rmSync(getJobExportPath(job), { force: true });
+    deleteJob(job.id);
+  } catch (err) {
+    console.error(`Failed to remove job ${job.id}:`, err);
+  }
+}
+
+// Archives and work folders whose job is gone, plus temp folders left by
+// older versions, once they are older than the retention period
+function orphanPaths(jobs: Job[]): string[] {
+  const known = new Set(
+    jobs.map((job) => path.basename(getJobExportPath(job)))
+  );
+  const knownDirs = new Set(jobs.map((job) => job.id));
+  const paths: string[] = [];
+
+  const list = (dir: string) =>
+    fs.existsSync(dir)
+      ? fs.readdirSync(dir).map((entry) => ({ dir, entry }))
+      : [];
+
+  for (const { dir, entry } of list(ZIP_DIR)) {
+    if (!known.has(entry)) paths.push(path.join(dir, entry));
+  }
+  for (const { dir, entry } of list(JOBS_DIR)) {
+    if (!knownDirs.has(entry)) paths.push(path.join(dir, entry));
+  }
+  for (const { dir, entry } of list(os.tmpdir())) {
+    if (entry.startsWith("image-download-")) paths.push(path.join(dir, entry));
+  }
+  return paths;
+}
+
+function isStale(target: string, now: number): boolean {
+  try {
+    const { mtimeMs } = fs.statSync(target);
+    return now - mtimeMs > config.exportTtlHours * HOUR_MS;
+  } catch {
+    return false;
+  }
+}
+
+export function getStorageUsage(): StorageUsage {
+  const jobs = listJobs();
+  const jobUsage: JobUsage[] = jobs.map((job) => ({
+    id: job.id,
+    ownerId: job.ownerId,
+    status: job.status,
+    bytes: jobBytes(job),
+    expiresAt: jobExpiry(job)?.toISOString() ?? "",
+  }));
+
+  const users = new Map<string, { bytes: number; jobs: number }>();
+  for (const usage of jobUsage) {
+    if (!usage.ownerId) continue;
+    const user = users.get(usage.ownerId) ?? { bytes: 0, jobs: 0 };
+    user.bytes += usage.bytes;
+    user.jobs += 1;
+    users.set(usage.ownerId, user);
+  }
+
+  const orphanBytes = orphanPaths(jobs).reduce(
+    (total, target) => total + pathSize(target),
+    0
+  );
+
+  return {
+    totalBytes:
+      jobUsage.reduce((total, usage) => total + usage.bytes, 0) + orphanBytes,
+    quotaBytes: config.storageQuotaMb * MB,
+    userQuotaBytes: config.userStorageQuotaMb * MB,
+    users: [...users.entries()].map(([ownerId, user]) => ({
+      ownerId,
+      ...user,
+    })),
+    jobs: jobUsage,
+    orphanBytes,
+  };
+}
+
+// Returns why a new job can't be started, or null when within quota
+export function checkQuota(ownerId?: string): string | null {
+  if (!config.storageQuotaMb && !(ownerId && config.userStorageQuotaMb)) {
+    return null;
+  }
+
+  const usage = getStorageUsage();
+  if (usage.quotaBytes && usage.totalBytes >= usage.quotaBytes) {
+    return "Server storage is full. Please try again later.";
+  }
+
+  const user = usage.users.find((entry) => entry.ownerId === ownerId);
+  if (usage.userQuotaBytes && user && user.bytes >= usage.userQuotaBytes) {
+    return "Your storage quota is used up. Wait for older downloads to expire.";
+  }
+  return null;
+}
+
+// Removes expired jobs and stale leftovers, then the jobs closest to expiry
+// while storage is still over the global quota. The shared image cache is
+// pruned on the same schedule.
+export function runCleanup(now = Date.now()): { removed: number } {
+  const jobs = listJobs();
+  let removed = pruneCache(now).removed;
+
+  for (const target of orphanPaths(jobs)) {
+    if (isStale(target, now)) {
+      fs.rmSync(target, { recursive: true, force: true });
+      removed++;
+    }
+  }
+
+  const remaining: { job: Job; expiry: Date }[] = [];
+  for (const job of jobs) {
+    const expiry = jobExpiry(job);
+    if (!expiry) continue;
+    if (expiry.getTime() <= now) {
+      removeJob(job);
+      removed++;
+    } else {
+      remaining.push({ job, expiry });
+    }
+  }
+
+  if (config.storageQuotaMb) {
+    let total = getStorageUsage().totalBytes;
+    remaining.sort((a, b) => a.expiry.getTime() - b.expiry.getTime());
+    for (const { job } of remaining) {
+      if (total < config.storageQuotaMb * MB) break;
+      total -= jobBytes(job);
+      removeJob(job);
+      removed++;
+    }
+  }
+
+  return { removed };
+}
+
+const globalForRetention = globalThis as unknown as {
+  retentionTimer?: NodeJS.Timeout;
+};
+
+// Runs the cleanup now and then on a fixed interval
+export function startRetention(): void {
+  if (globalForRetention.retentionTimer) return;
+
+  const run = () => {
+    try {
+      const { removed } = runCleanup();
+      if (removed > 0) {
+        console.log(`Cleanup removed ${removed} expired jobs and files`);
+      }
+    } catch (err) {
+      console.error("Cleanup failed:", err);
+    }
+  };
+
+  run();
+  const intervalMs = Math.max(config.cleanupIntervalMinutes, 1) * 60 * 1000;
+  globalForRetention.retentionTimer = setInterval(run, intervalMs);
+  globalForRetention.retentionTimer.unref();
+}
@@ -0,0 +1,57 @@
+import { enqueueJob, updateJob } from "./worker";
+import type { Job } from "./types";
+
+export interface RetryOverrides {
+  // Providers to search with this time instead of the job's (and the
+  // rows') own
+  providers?: string[];
+  // New search queries keyed by row id
+  queries?: Record<string, string>;
+}
+
+// Puts a finished job's failed rows back in the queue. Successful rows and
+// their images are kept, so the rebuilt archive contains both.
+export function retryFailedRows(
+  job: Job,
+  overrides: RetryOverrides = {}
+): number {
+  const failed = job.progress
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.status === "failed");
+
+  if (failed.length === 0) return 0;
+
+  // Only for this retry; the job's options stay as they were created
+  job.retryProviders =
+    overrides.providers && overrides.providers.length > 0
+      ? overrides.providers
+      : undefined;
+
+  for (const { item, index } of failed) {
+    const row = job.rows[index];
+
+    const query = overrides.queries?.[String(row.id)]?.trim();
+    if (query) {
+      row.search_query = query;
+      row.image_url = undefined;
+    }
+
+    item.status = "pending";
+    item.error = undefined;
+    item.errorCategory = undefined;
+    item.provider = undefined;
+    item.candidates = undefined;
+  }
+
+  // Newly found images go through review again before the archive is rebuilt
+  job.reviewed = false;
+  job.status = "queued";
+  job.downloadUrl = undefined;
+  job.exportLocation = undefined;
+  job.expiresAt = undefined;
+  job.duplicateImages = undefined;
+  job.error = undefined;
+  updateJob(job);
+  enqueueJob(job.id);
+  return failed.length;
+}
@@ -0,0 +1,159 @@
+import type { ImageCandidate } from "../search";
+import { FORMAT_EXTENSIONS, readImageInfo } from "../imageInfo";
+import {
+  fetchCandidate,
+  findRowCandidates,
+  prepareImage,
+  removeRowImage,
+  writeRowImage,
+  type PreparedImage,
+} from "./images";
+import { loadOwnedJob } from "./access";
+import { readJob } from "./store";
+import { enqueueJob, updateJob } from "./worker";
+import type { Job, ProgressItem } from "./types";
+
+export type ReviewLookup =
+  | { job: Job; index: number }
+  | { error: string; status: number };
+
+// Loads the user's job that is waiting for review, plus a valid row index
+export async function loadReviewRow(
+  id: string,
+  row: string
+): Promise<ReviewLookup> {
+  const lookup = await loadOwnedJob(id);
+  if ("error" in lookup) {
+    return lookup;
+  }
+
+  const { job } = lookup;
+  if (job.status !== "review") {
+    return { error: "Job is not awaiting review", status: 409 };
+  }
+
+  const index = parseInt(row, 10);
+  if (!Number.isInteger(index) || index < 0 || index >= job.rows.length) {
+    return { error: "Row not found", status: 404 };
+  }
+  return { job, index };
+}
+
+// Review requests for different rows run side by side, each with its own
+// copy of the job. Once a download or search is done the change is applied
+// to the job as it is now, so other rows' edits survive; null when the
+// review has ended in the meantime.
+function reloadReviewJob(id: string): Job | null {
+  const job = readJob(id);
+  return job?.status === "review" ? job : null;
+}
+
+// Puts an image into a row's n-th (1-based) slot, replacing what was there
+function setRowImage(
+  job: Job,
+  index: number,
+  slot: number,
+  image: PreparedImage,
+  url: string
+): ProgressItem {
+  const item = job.progress[index];
+  const images = [...(item.images ?? [])];
+  const maxSlots = job.options.imagesPerRow ?? 1;
+  const position = Math.min(Math.max(slot, 1), maxSlots, images.length + 1) - 1;
+
+  const previous = images[position];
+  if (previous) {
+    removeRowImage(job, previous);
+  }
+  images[position] = writeRowImage(
+    job,
+    String(job.rows[index].id),
+    position + 1,
+    image,
+    url
+  );
+
+  item.images = images;
+  item.status = "success";
+  item.provider = "review";
+  item.error = undefined;
+  item.errorCategory = undefined;
+  // Picked by hand, so no longer in doubt
+  item.similar = undefined;
+  updateJob(job, index);
+  return item;
+}
+
+export async function replaceRowImageFromUrl(
+  job: Job,
+  index: number,
+  url: string,
+  slot = 1
+): Promise<ProgressItem | null> {
+  try {
+    const { protocol } = new URL(url);
+    if (protocol !== "http:" && protocol !== "https:") throw new Error();
+  } catch {
+    throw new Error("Image URL must be an http or https URL");
+  }
+
+  const result = await fetchCandidate(job, url, { checkQuality: false });
+  if ("rejection" in result) {
+    throw new Error(result.rejection);
+  }
+  const current = reloadReviewJob(job.id);
+  return current && setRowImage(current, index, slot, result, url);
+}
+
+export async function replaceRowImageFromUpload(
+  job: Job,
+  index: number,
+  buffer: Buffer,
+  fileName: string,
+  slot = 1
+): Promise<ProgressItem | null> {
+  const info = readImageInfo(buffer);
+  if (!info) {
+    throw new Error("Uploaded file is not a recognised image");
+  }
+
+  const result = await prepareImage(
+    job,
+    buffer,
+    FORMAT_EXTENSIONS[info.format],
+    { checkQuality: false }
+  );
+  if ("rejection" in result) {
+    throw new Error(result.rejection);
+  }
+  const current = reloadReviewJob(job.id);
+  return (
+    current && setRowImage(current, index, slot, result, `upload:${fileName}`)
+  );
+}
+
+// Runs the search again for one row with a different query; null when the
+// review ended while searching
+export async function searchRowAgain(
+  job: Job,
+  index: number,
+  query: string,
+  providers?: string[]
+): Promise<ImageCandidate[] | null> {
+  const row = { ...job.rows[index], search_query: query, image_url: undefined };
+  const { candidates } = await findRowCandidates(job, row, providers);
+
+  const current = reloadReviewJob(job.id);
+  if (!current) return null;
+  current.progress[index].candidates = candidates;
+  updateJob(current, index);
+  return candidates;
+}
+
+// Hands the reviewed job back to the worker to build the archive
+export function finishReview(job: Job): void {
+  job.reviewed = true;
+  job.status = "queued";
+  updateJob(job);
+  enqueueJob(job.id);
+}
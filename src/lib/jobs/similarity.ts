@@ -0,0 +1,58 @@
+import { config } from "../config";
+import { bitsDistance, parseHash, type HashBits } from "../perceptualHash";
+import type { Job, SavedImage } from "./types";
+
+// Images compared against all the later ones before giving other requests a
+// turn; a large job holds tens of thousands of images
+const IMAGES_PER_TURN = 200;
+
+// Compares every saved image with the images of the other rows and records
+// near-duplicates on both rows, so the same stock photo returned for two
+// different products gets a second look. Rows whose image was picked by hand
+// in the review are not flagged again. Returns how many rows were flagged.
+export async function flagSimilarImages(job: Job): Promise<number> {
+  const hashed: { index: number; image: SavedImage; bits: HashBits }[] = [];
+  job.progress.forEach((item, index) => {
+    item.similar = undefined;
+    for (const image of item.images ?? []) {
+      if (image.phash) {
+        hashed.push({ index, image, bits: parseHash(image.phash) });
+      }
+    }
+  });
+
+  const flag = (
+    self: (typeof hashed)[number],
+    other: (typeof hashed)[number],
+    distance: number
+  ) => {
+    const item = job.progress[self.index];
+    if (item.provider === "review") return;
+    (item.similar ??= []).push({
+      fileName: self.image.fileName,
+      index: other.index,
+      rowId: String(job.progress[other.index].id),
+      otherFileName: other.image.fileName,
+      distance,
+    });
+  };
+
+  for (let i = 0; i < hashed.length; i++) {
+    if (i > 0 && i % IMAGES_PER_TURN === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    const a = hashed[i];
+    // A row's images sit next to each other and aren't compared
+    let j = i + 1;
+    while (j < hashed.length && hashed[j].index === a.index) j++;
+    for (; j < hashed.length; j++) {
+      const b = hashed[j];
+      const distance = bitsDistance(a.bits, b.bits);
+      if (distance > config.similarImageDistance) continue;
+      flag(a, b, distance);
+      flag(b, a, distance);
+    }
+  }
+
+  return job.progress.filter((item) => item.similar).length;
+}
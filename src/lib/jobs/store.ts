@@ -0,0 +1,162 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import crypto from "crypto";
+import { forgetJobEvents } from "./events";
+import type { ExcelRow, Job, JobOptions } from "./types";
+
+export const JOBS_DIR = path.join(os.tmpdir(), "image-downloader-jobs");
+
+// Row updates on a large job would otherwise rewrite the whole file several
+// times a second; they are gathered and written at most this often
+const SAVE_INTERVAL_MS = 1000;
+
+// Kept on globalThis so every route bundle sees writes that are still due
+const globalForStore = globalThis as unknown as {
+  pendingJobSaves?: Map<string, { job: Job; timer: NodeJS.Timeout }>;
+};
+
+const pendingSaves =
+  globalForStore.pendingJobSaves ??
+  new Map<string, { job: Job; timer: NodeJS.Timeout }>();
+globalForStore.pendingJobSaves = pendingSaves;
+
+// Job IDs end up in file paths, so only allow what we generate
+function safeJobId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9]/g, "");
+}
+
+export function jobDir(id: string): string {
+  return path.join(JOBS_DIR, safeJobId(id));
+}
+
+export function jobImagesDir(id: string): string {
+  return path.join(jobDir(id), "images");
+}
+
+// Shown for the row in progress and manifests. Rows without an image name
+// use their search text, or the file name in their image URL, or failing
+// that their position.
+function rowImageName(row: ExcelRow, index: number): string {
+  const name = String(row.image_name || row.search_query || "").trim();
+  if (name) return name;
+
+  try {
+    const fileName = new URL(String(row.image_url ?? "").trim()).pathname
+      .split("/")
+      .pop();
+    if (fileName) return decodeURIComponent(fileName);
+  } catch {
+    // Not a URL, or a badly encoded one
+  }
+  return `Row ${index + 1}`;
+}
+
+export function createJob(
+  fileName: string,
+  rows: ExcelRow[],
+  options: JobOptions = {},
+  ownerId?: string
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: crypto.randomBytes(8).toString("hex"),
+    status: "queued",
+    ownerId,
+    fileName,
+    options,
+    rows,
+    progress: rows.map((row, index) => ({
+      id: String(row.id),
+      image_name: rowImageName(row, index),
+      status: "pending" as const,
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  fs.mkdirSync(jobImagesDir(job.id), { recursive: true });
+  saveJob(job);
+  return job;
+}
+
+export function readJob(id: string): Job | null {
+  // Readers must never see a file older than what the worker holds
+  flushJob(id);
+  const jobPath = path.join(jobDir(id), "job.json");
+  if (!fs.existsSync(jobPath)) {
+    return null;
+  }
+
+  try {
+    const job = JSON.parse(fs.readFileSync(jobPath, "utf-8")) as Job;
+    // Jobs saved before per-job options existed
+    job.options ??= {};
+    return job;
+  } catch {
+    return null;
+  }
+}
+
+export function saveJob(job: Job): void {
+  const pending = pendingSaves.get(job.id);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(job.id);
+  }
+
+  job.updatedAt = new Date().toISOString();
+  const jobPath = path.join(jobDir(job.id), "job.json");
+
+  // Write then rename so a crash never leaves a half-written job file
+  const tmpPath = `${jobPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(job));
+  fs.renameSync(tmpPath, jobPath);
+}
+
+// Saves the job within SAVE_INTERVAL_MS, together with any other changes
+// made until then
+export function saveJobSoon(job: Job): void {
+  const pending = pendingSaves.get(job.id);
+  if (pending) {
+    pending.job = job;
+    return;
+  }
+
+  const timer = setTimeout(() => flushJob(job.id), SAVE_INTERVAL_MS);
+  timer.unref();
+  pendingSaves.set(job.id, { job, timer });
+}
+
+// Writes a save that is still due now
+export function flushJob(id: string): void {
+  const pending = pendingSaves.get(id);
+  if (pending) {
+    saveJob(pending.job);
+  }
+}
+
+export function deleteJob(id: string): void {
+  const pending = pendingSaves.get(id);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(id);
+  }
+  fs.rmSync(jobDir(id), { recursive: true, force: true });
+  forgetJobEvents(id);
+}
+
+export function listJobs(): Job[] {
+  if (!fs.existsSync(JOBS_DIR)) {
+    return [];
+  }
+
+  const jobs: Job[] = [];
+  for (const entry of fs.readdirSync(JOBS_DIR)) {
+    const job = readJob(entry);
+    if (job) {
+      jobs.push(job);
+    }
+  }
+  return jobs;
+}
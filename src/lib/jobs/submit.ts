@@ -0,0 +1,50 @@
+import {
+  dropInvalidRows,
+  validateRows,
+  type InvalidRowHandling,
+  type ValidationReport,
+} from "../validation";
+import { checkQuota } from "./retention";
+import { createJob } from "./store";
+import { enqueueJob } from "./worker";
+import type { ExcelRow, Job, JobOptions } from "./types";
+
+export type SubmitResult =
+  | { job: Job }
+  | { error: string; status: number; report?: ValidationReport };
+
+// Validates the rows, checks the owner's storage quota and queues the job
+export function submitJob(
+  ownerId: string,
+  fileName: string,
+  rows: ExcelRow[],
+  options: JobOptions,
+  onInvalid: InvalidRowHandling
+): SubmitResult {
+  const report = validateRows(rows);
+  if (report.invalidRows.length > 0) {
+    if (onInvalid === "reject") {
+      return {
+        error: `${report.invalidRows.length} rows failed validation`,
+        status: 422,
+        report,
+      };
+    }
+
+    if (onInvalid === "skip") {
+      rows = dropInvalidRows(rows, report);
+      if (rows.length === 0) {
+        return { error: "No valid rows to process", status: 422, report };
+      }
+    }
+  }
+
+  const quotaError = checkQuota(ownerId);
+  if (quotaError) {
+    return { error: quotaError, status: 507 };
+  }
+
+  const job = createJob(fileName, rows, options, ownerId);
+  enqueueJob(job.id);
+  return { job };
+}
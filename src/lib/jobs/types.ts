@@ -0,0 +1,157 @@
+import type { ErrorCategory } from "../retry";
+import type { ImageCandidate } from "../search/types";
+
+export interface ExcelRow {
+  id: string | number;
+  image_name: string;
+  // Known image URL; skips search entirely
+  image_url?: string;
+  // Search text to use instead of image_name
+  search_query?: string;
+  // Comma-separated words the results should not match
+  exclude_terms?: string;
+  // Restrict search results to this domain
+  site?: string;
+  // Optional search provider to try first for this row
+  provider?: string;
+  // Folder name for the "folders" export format
+  group?: string;
+}
+
+export interface SavedImage {
+  // Path inside the archive
+  fileName: string;
+  // Where the image was downloaded from
+  url: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+  // Hex SHA-256 of the saved file
+  sha256?: string;
+  // Perceptual hash (see perceptualHash.ts) for spotting near-duplicates
+  phash?: string;
+}
+
+// One of a row's images that looks like an image of another row
+export interface SimilarImage {
+  fileName: string;
+  // The other row and its image
+  index: number;
+  rowId: string;
+  otherFileName: string;
+  // Bits that differ between the two perceptual hashes
+  distance: number;
+}
+
+export interface ProgressItem {
+  id: string;
+  image_name: string;
+  status: "pending" | "downloading" | "success" | "failed";
+  error?: string;
+  // Kind of failure, so transient ones can be told from genuine misses
+  errorCategory?: ErrorCategory;
+  // Search provider that supplied the saved images
+  provider?: string;
+  images?: SavedImage[];
+  // Ranked search results, kept when the job has a review step
+  candidates?: ImageCandidate[];
+  // Set when the row's image looks like another row's; such rows need a
+  // review even though they succeeded
+  similar?: SimilarImage[];
+}
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  // Rows are done and waiting for the user before the archive is built
+  | "review"
+  | "completed"
+  | "failed";
+
+export interface QualityConstraints {
+  minWidth?: number;
+  minHeight?: number;
+  // Width divided by height
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+  // Formats as detected from the file, e.g. ["jpeg", "png"]
+  formats?: string[];
+  maxBytes?: number;
+  allowAnimated?: boolean;
+}
+
+export type OutputFormat = "original" | "jpeg" | "png" | "webp" | "avif";
+
+// "folders" is a ZIP grouped by the rows' group column; "xlsx" embeds the
+// images next to each row
+export type ExportFormat = "zip" | "tar.gz" | "folders" | "xlsx";
+
+export interface ProcessingSettings {
+  // Target box; either side may be left out to keep the aspect ratio
+  width?: number;
+  height?: number;
+  // "contain" pads to the exact box, "cover" crops, "inside" only shrinks
+  fit?: "contain" | "cover" | "inside" | "fill";
+  format?: OutputFormat;
+  // 1-100, for lossy formats
+  quality?: number;
+  // Padding and transparency fill, e.g. "#ffffff"
+  background?: string;
+  // EXIF and other metadata are stripped unless this is false
+  stripMetadata?: boolean;
+}
+
+export interface JobOptions {
+  // Rows processed in parallel; falls back to the server default
+  concurrency?: number;
+  // Search providers in fallback order
+  providers?: string[];
+  // Candidates failing these are skipped in favour of the next URL
+  quality?: QualityConstraints;
+  // Applied to each accepted image before it is saved
+  processing?: ProcessingSettings;
+  // Top results saved per row as id_1, id_2, ... (or id/1, id/2, ...)
+  imagesPerRow?: number;
+  imageLayout?: "suffix" | "folder";
+  // Order candidates by resolution, size and domain; on unless false
+  ranking?: boolean;
+  preferredDomains?: string[];
+  // Pause for an image review before building the archive
+  review?: boolean;
+  // Adds a copy of the input rows with each row's outcome to the archive
+  annotatedInput?: boolean;
+  exportFormat?: ExportFormat;
+  // Export destination such as "s3"; kept for download when unset
+  destination?: string;
+  // Notified when the job finishes, on top of the owner's account webhooks
+  webhookUrl?: string;
+  // Percentage of failed rows that also triggers a notification
+  webhookFailureThreshold?: number;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  // User who created the job, for per-user quotas
+  ownerId?: string;
+  fileName: string;
+  options: JobOptions;
+  rows: ExcelRow[];
+  // Indexed the same as `rows`
+  progress: ProgressItem[];
+  // Set once the user has finished reviewing
+  reviewed?: boolean;
+  // Providers picked for the latest retry of the failed rows, in place of
+  // the rows' and the job's own
+  retryProviders?: string[];
+  downloadUrl?: string;
+  // Where the export was delivered when it went to a destination
+  exportLocation?: string;
+  // The download stays available until then
+  expiresAt?: string;
+  // Images identical to another image in the export, by SHA-256
+  duplicateImages?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
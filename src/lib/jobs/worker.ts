@@ -0,0 +1,220 @@
+import fs from "fs";
+import type { ImageCandidate } from "../search";
+import { config } from "../config";
+import { runConcurrently } from "../concurrency";
+import { isFetchError, isTransient, type ErrorCategory } from "../retry";
+import { notifyJob } from "../webhooks";
+import { jobImagesDir, listJobs, readJob, saveJob, saveJobSoon } from "./store";
+import { publishJob, publishRow } from "./events";
+import { fetchCandidate, findRowCandidates, writeRowImage } from "./images";
+import { buildExport } from "./export";
+import { recordDownload } from "./history";
+import { countDuplicates } from "./manifest";
+import { flagSimilarImages } from "./similarity";
+import type { Job, SavedImage } from "./types";
+
+// Jobs run one at a time in the background, independent of any request
+const globalForWorker = globalThis as unknown as {
+  jobQueue?: string[];
+  workerRunning?: boolean;
+};
+
+const jobQueue = globalForWorker.jobQueue ?? [];
+globalForWorker.jobQueue = jobQueue;
+
+// Saves the job and tells listeners what changed: one row when `rowIndex`
+// is given, otherwise the whole job. Row changes are written in batches;
+// listeners still hear about each one at once.
+export function updateJob(job: Job, rowIndex?: number): void {
+  if (rowIndex === undefined) {
+    saveJob(job);
+    publishJob(job);
+  } else {
+    saveJobSoon(job);
+    publishRow(job, rowIndex);
+  }
+}
+
+export function enqueueJob(id: string): void {
+  if (!jobQueue.includes(id)) {
+    jobQueue.push(id);
+  }
+  void drainQueue();
+}
+
+async function drainQueue(): Promise<void> {
+  if (globalForWorker.workerRunning) return;
+  globalForWorker.workerRunning = true;
+
+  try {
+    while (jobQueue.length > 0) {
+      const id = jobQueue.shift()!;
+      const job = readJob(id);
+      if (!job) continue;
+
+      try {
+        await processJob(job);
+      } catch (err) {
+        job.status = "failed";
+        job.error = err instanceof Error ? err.message : "An error occurred";
+        updateJob(job);
+        await notifyJob(job, "job.failed");
+      }
+    }
+  } finally {
+    globalForWorker.workerRunning = false;
+  }
+}
+
+async function processRow(job: Job, index: number): Promise<void> {
+  const progressItem = job.progress[index];
+  const row = job.rows[index];
+  const rowId = String(row.id);
+  const imagesPerRow = job.options.imagesPerRow ?? 1;
+
+  progressItem.status = "downloading";
+  updateJob(job, index);
+
+  try {
+    let provider: string | undefined;
+    let candidates: ImageCandidate[];
+
+    const directUrl = String(row.image_url ?? "").trim();
+    if (directUrl) {
+      provider = "image_url";
+      candidates = [{ url: directUrl }];
+    } else {
+      ({ provider, candidates } = await findRowCandidates(job, row));
+    }
+
+    // Kept for the review step, where other candidates can be picked
+    if (job.options.review) {
+      progressItem.candidates = candidates;
+    }
+
+    if (candidates.length === 0) {
+      progressItem.status = "failed";
+      progressItem.error = "No images found";
+      progressItem.errorCategory = "not_found";
+      updateJob(job, index);
+      return;
+    }
+
+    const saved: SavedImage[] = [];
+    const rejections: string[] = [];
+    const categories: ErrorCategory[] = [];
+    for (const candidate of candidates) {
+      if (saved.length >= imagesPerRow) break;
+
+      const result = await fetchCandidate(job, candidate.url);
+      if ("rejection" in result) {
+        rejections.push(result.rejection);
+        if (result.category) categories.push(result.category);
+        continue;
+      }
+
+      saved.push(
+        writeRowImage(job, rowId, saved.length + 1, result, candidate.url)
+      );
+    }
+
+    if (saved.length > 0) {
+      progressItem.status = "success";
+      progressItem.provider = provider;
+      progressItem.images = saved;
+    } else {
+      progressItem.status = "failed";
+      // Plain download failures keep the original message
+      const reasons = [...new Set(rejections)];
+      progressItem.error =
+        reasons.length === 1 && reasons[0] === "Failed to download image"
+          ? reasons[0]
+          : `No usable candidate: ${reasons.join("; ")}`;
+      // Any transient failure means trying the row again may work
+      progressItem.errorCategory =
+        categories.find(isTransient) ?? categories[0];
+    }
+  } catch (err) {
+    progressItem.status = "failed";
+    progressItem.error = err instanceof Error ? err.message : "Unknown error";
+    progressItem.errorCategory = isFetchError(err) ? err.category : undefined;
+  }
+
+  updateJob(job, index);
+}
+
+async function processJob(job: Job): Promise<void> {
+  job.status = "running";
+  updateJob(job);
+
+  const tempDir = jobImagesDir(job.id);
+  fs.mkdirSync(tempDir, { recursive: true });
+
+  // Rows finished before a restart keep their result
+  const pendingRows = job.progress
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.status !== "success" && item.status !== "failed")
+    .map(({ index }) => index);
+
+  const concurrency = Math.min(
+    job.options.concurrency ?? config.defaultRowConcurrency,
+    config.maxRowConcurrency
+  );
+
+  // Each row only touches its own progress item, so rows may finish in any
+  // order; every update publishes that row's new state. Threshold checks run
+  // in the background so webhook bookkeeping doesn't hold a row slot.
+  await runConcurrently(pendingRows, concurrency, async (index) => {
+    await processRow(job, index);
+    if (job.progress[index].status === "failed") {
+      void notifyJob(job, "job.failure_threshold");
+    }
+  });
+
+  // Runs again after a review, since images may have been replaced. The
+  // flags reach listeners with the next status change.
+  const flagged = await flagSimilarImages(job);
+
+  // Leave the images in place until the user has reviewed them. Rows that
+  // look like another row's image are held for review too rather than
+  // reported as plain successes.
+  if ((job.options.review || flagged > 0) && !job.reviewed) {
+    job.status = "review";
+    updateJob(job);
+    await notifyJob(job, "job.review");
+    return;
+  }
+
+  // Images stay with the job so a retry can build a new archive that still
+  // includes the rows that already succeeded
+  const { downloadUrl, location, bytes } = await buildExport(job);
+
+  job.status = "completed";
+  job.downloadUrl = downloadUrl;
+  job.exportLocation = location;
+  job.expiresAt = downloadUrl
+    ? new Date(Date.now() + config.exportTtlHours * 3600 * 1000).toISOString()
+    : undefined;
+  job.duplicateImages = countDuplicates(job);
+  updateJob(job);
+  await recordDownload(job, bytes);
+  await notifyJob(job, "job.completed");
+}
+
+// Picks up jobs that were queued or mid-run when the server stopped
+export function resumeJobs(): void {
+  const unfinished = listJobs()
+    .filter((job) => job.status === "queued" || job.status === "running")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const job of unfinished) {
+    for (const item of job.progress) {
+      if (item.status === "downloading") {
+        item.status = "pending";
+      }
+    }
+    job.status = "queued";
+    saveJob(job);
+    enqueueJob(job.id);
+  }
+}
@@ -0,0 +1,217 @@
+import axios, { type AxiosInstance, type AxiosProxyConfig } from "axios";
+import fs from "fs";
+import createHttpsProxyAgent, { type HttpsProxyAgent } from "https-proxy-agent";
+
+// Used when USER_AGENTS_FILE isn't set
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Domains such as "example.com" or "*.example.com"; each covers its
+// subdomains
+function parseDomainList(value: string | undefined): string[] {
+  return parseList(value).map((entry) =>
+    entry.replace(/^\*?\./, "").toLowerCase()
+  );
+}
+
+function parseProxy(raw: string): AxiosProxyConfig | null {
+  try {
+    const url = new URL(raw);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return {
+      protocol: url.protocol.slice(0, -1),
+      host: url.hostname,
+      port: Number(url.port) || (url.protocol === "https:" ? 443 : 80),
+      auth: url.username
+        ? {
+            username: decodeURIComponent(url.username),
+            password: decodeURIComponent(url.password),
+          }
+        : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Requests go through these proxies in turn, so a pool spreads the load
+// and a proxy that fails is skipped on the retry
+const proxies = parseList(
+  process.env.OUTBOUND_PROXIES ||
+    process.env.HTTPS_PROXY ||
+    process.env.HTTP_PROXY
+).flatMap((raw) => {
+  const proxy = parseProxy(raw);
+  if (!proxy) console.error(`Ignoring invalid proxy URL: ${raw}`);
+  return proxy ? [proxy] : [];
+});
+let nextProxy = 0;
+
+// Hosts reached directly
+const noProxy = parseDomainList(
+  process.env.OUTBOUND_NO_PROXY || process.env.NO_PROXY
+);
+
+// Public hosts only the proxy can resolve; every other name must resolve
+// here so its addresses can be checked
+const proxyResolvedHosts = parseDomainList(
+  process.env.OUTBOUND_PROXY_DNS_HOSTS
+);
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+export function isProxyResolvedHost(hostname: string): boolean {
+  const name = hostname.toLowerCase();
+  return proxyResolvedHosts.some((domain) => matchesDomain(name, domain));
+}
+
+// The proxy for the next request to `url`, or false to connect directly
+export function proxyFor(url: string): AxiosProxyConfig | false {
+  if (proxies.length === 0) return false;
+  const hostname = new URL(url).hostname.toLowerCase();
+  if (
+    noProxy.some((domain) => domain === "*" || matchesDomain(hostname, domain))
+  ) {
+    return false;
+  }
+  const proxy = proxies[nextProxy % proxies.length];
+  nextProxy++;
+  return proxy;
+}
+
+// axios's own proxy support sends HTTPS requests to the proxy as plain
+// requests instead of tunnelling them, so HTTPS goes through a CONNECT
+// tunnel agent per proxy
+const tunnels = new WeakMap<AxiosProxyConfig, HttpsProxyAgent>();
+
+function tunnelAgent(proxy: AxiosProxyConfig): HttpsProxyAgent {
+  let agent = tunnels.get(proxy);
+  if (!agent) {
+    agent = createHttpsProxyAgent({
+      protocol: `${proxy.protocol ?? "http"}:`,
+      host: proxy.host,
+      port: proxy.port,
+      auth: proxy.auth
+        ? `${proxy.auth.username}:${proxy.auth.password}`
+        : undefined,
+    });
+    tunnels.set(proxy, agent);
+  }
+  return agent;
+}
+
+// Re-reads a settings file only when it changes
+function watchedFile<T>(
+  filePath: string | undefined,
+  parse: (text: string) => T,
+  fallback: T
+): () => T {
+  let cached: { mtimeMs: number; value: T } | null = null;
+
+  return () => {
+    if (!filePath || !fs.existsSync(filePath)) return fallback;
+    const { mtimeMs } = fs.statSync(filePath);
+    if (!cached || cached.mtimeMs !== mtimeMs) {
+      try {
+        cached = { mtimeMs, value: parse(fs.readFileSync(filePath, "utf-8")) };
+      } catch (err) {
+        console.error(`Could not read ${filePath}:`, err);
+        cached = { mtimeMs, value: fallback };
+      }
+    }
+    return cached.value;
+  };
+}
+
+// One user agent per line; each request picks one at random
+const userAgents = watchedFile(
+  process.env.USER_AGENTS_FILE,
+  (text) => {
+    const lines = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"));
+    return lines.length > 0 ? lines : [DEFAULT_USER_AGENT];
+  },
+  [DEFAULT_USER_AGENT]
+);
+
+// JSON object of domain → headers, e.g. a Referer or cookies a host wants
+const domainHeaders = watchedFile<Record<string, Record<string, string>>>(
+  process.env.OUTBOUND_HEADERS_FILE,
+  (text) => {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error("expected an object of domain → headers");
+    }
+    return data;
+  },
+  {}
+);
+
+export function pickUserAgent(): string {
+  const list = userAgents();
+  return list[Math.floor(Math.random() * list.length)];
+}
+
+// Configured headers for `url`; more specific domains win
+export function headersFor(url: string): Record<string, string> {
+  const hostname = new URL(url).hostname.toLowerCase();
+  return Object.entries(domainHeaders())
+    .filter(([domain]) => matchesDomain(hostname, domain.toLowerCase()))
+    .sort(([a], [b]) => a.length - b.length)
+    .reduce<Record<string, string>>(
+      (headers, [, extra]) => ({ ...headers, ...extra }),
+      {}
+    );
+}
+
+function outboundClient({
+  domainHeaders,
+}: {
+  domainHeaders: boolean;
+}): AxiosInstance {
+  const client = axios.create();
+
+  client.interceptors.request.use((request) => {
+    const url = axios.getUri(request);
+    const proxy = request.proxy === undefined ? proxyFor(url) : request.proxy;
+    if (proxy && new URL(url).protocol === "https:") {
+      request.proxy = false;
+      request.httpsAgent = tunnelAgent(proxy);
+    } else {
+      request.proxy = proxy;
+    }
+    if (!request.headers.has("User-Agent")) {
+      request.headers.set("User-Agent", pickUserAgent());
+    }
+    if (domainHeaders) {
+      for (const [name, value] of Object.entries(headersFor(url))) {
+        request.headers.set(name, value);
+      }
+    }
+    return request;
+  });
+
+  return client;
+}
+
+// Every request to the outside world goes through one of these clients, so
+// proxies and user agents apply the same way everywhere. Callers may still
+// set their own proxy or User-Agent.
+//
+// Searches and downloads also get the per-domain headers, which always win.
+export const http = outboundClient({ domainHeaders: true });
+
+// Requests of our own, such as webhooks and uploads, go out with exactly the
+// headers they set, since content types and signatures must not be replaced
+export const serviceHttp = outboundClient({ domainHeaders: false });
@@ -0,0 +1,59 @@
+import sharp from "sharp";
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Difference hash: the picture shrunk to 9x8 greyscale pixels, with one bit
+// per pair of horizontal neighbours. Resized, recompressed or lightly edited
+// copies of a picture end up only a few bits apart. Returns 16 hex digits,
+// or null when the image can't be decoded.
+export async function perceptualHash(
+  input: Buffer | string
+): Promise<string | null> {
+  try {
+    const pixels = await sharp(input)
+      .rotate()
+      .flatten({ background: "#ffffff" })
+      .greyscale()
+      .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+      .raw()
+      .toBuffer();
+
+    const bytes = Buffer.alloc(HASH_HEIGHT);
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const left = pixels[y * HASH_WIDTH + x];
+        const right = pixels[y * HASH_WIDTH + x + 1];
+        if (left > right) {
+          bytes[y] |= 1 << x;
+        }
+      }
+    }
+    return bytes.toString("hex");
+  } catch {
+    return null;
+  }
+}
+
+// A hash as two 32-bit halves, so comparing two of them needs no
+// allocation. Parse each hash once when comparing it many times.
+export type HashBits = [high: number, low: number];
+
+export function parseHash(hash: string): HashBits {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+function countBits(value: number): number {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+// Number of differing bits between two hashes, from 0 (same picture) to 64
+export function bitsDistance(a: HashBits, b: HashBits): number {
+  return countBits(a[0] ^ b[0]) + countBits(a[1] ^ b[1]);
+}
+
+export function hashDistance(a: string, b: string): number {
+  return bitsDistance(parseHash(a), parseHash(b));
+}
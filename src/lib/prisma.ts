@@ -0,0 +1,9 @@
+import { PrismaClient } from "@prisma/client";
+
+// One client per process; dev hot reloads would otherwise open new pools
+const globalForPrisma = globalThis as unknown as {
+  prisma?: PrismaClient;
+};
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+globalForPrisma.prisma = prisma;
@@ -0,0 +1,88 @@
+import sharp from "sharp";
+import type { ProcessingSettings } from "./jobs/types";
+
+const OUTPUT_EXTENSIONS: Record<string, string> = {
+  jpeg: ".jpg",
+  png: ".png",
+  webp: ".webp",
+  avif: ".avif",
+  gif: ".gif",
+  tiff: ".tiff",
+};
+
+// Whether the settings resize, pad or convert images
+export function changesPicture(settings?: ProcessingSettings): boolean {
+  return (
+    !!settings &&
+    !!(
+      settings.width ||
+      settings.height ||
+      (settings.format && settings.format !== "original") ||
+      settings.background
+    )
+  );
+}
+
+// Whether images go through processImage at all. Metadata is stripped by
+// default, so only jobs that keep it and change nothing else skip it.
+export function hasProcessing(settings?: ProcessingSettings): boolean {
+  return settings?.stripMetadata !== false || changesPicture(settings);
+}
+
+// Small PNG preview, e.g. for embedding in a spreadsheet
+export async function createThumbnail(
+  input: Buffer | string,
+  size: number
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize({ width: size, height: size, fit: "inside" })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height };
+}
+
+// Resizes, pads and converts one image according to the job's settings
+export async function processImage(
+  buffer: Buffer,
+  extension: string,
+  settings: ProcessingSettings
+): Promise<{ buffer: Buffer; extension: string }> {
+  const format =
+    settings.format && settings.format !== "original"
+      ? settings.format
+      : undefined;
+
+  // rotate() applies the EXIF orientation before the metadata is dropped.
+  // Animations keep all their frames unless converted to another format.
+  let image = sharp(buffer, { animated: !format }).rotate();
+
+  if (settings.stripMetadata === false) {
+    image = image.keepMetadata();
+  }
+
+  if (settings.width || settings.height) {
+    image = image.resize({
+      width: settings.width,
+      height: settings.height,
+      fit: settings.fit ?? "contain",
+      background: settings.background ?? { r: 0, g: 0, b: 0, alpha: 0 },
+      withoutEnlargement: settings.fit === "inside",
+    });
+  }
+
+  if (settings.background) {
+    image = image.flatten({ background: settings.background });
+  }
+
+  if (format) {
+    image = image.toFormat(format, { quality: settings.quality });
+  }
+
+  // Without a target format sharp keeps the input format where it can
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return {
+    buffer: data,
+    extension: OUTPUT_EXTENSIONS[info.format] ?? extension,
+  };
+}
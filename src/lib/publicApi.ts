@@ -0,0 +1,151 @@
+import { authenticateApiKey } from "./apiKeys";
+import { loadJobForUser, type JobLookup } from "./jobs/access";
+import {
+  parseInputOptions,
+  parseInvalidRowHandling,
+  parseJobOptions,
+  parseUploadedRows,
+} from "./jobs/options";
+import type { ExcelRow, Job, JobOptions, ProgressItem } from "./jobs/types";
+import { isTransient, type ErrorCategory } from "./retry";
+import { parseSpreadsheet } from "./spreadsheet";
+import type { InvalidRowHandling } from "./validation";
+
+export const API_VERSION = "v1";
+
+export interface ApiJobRequest {
+  fileName: string;
+  rows: ExcelRow[];
+  options: JobOptions;
+  onInvalid: InvalidRowHandling;
+}
+
+// Resolves the API key on the request, then loads one of its owner's jobs
+export async function loadApiJob(
+  request: Request,
+  id: string
+): Promise<JobLookup> {
+  const userId = await authenticateApiKey(request);
+  if (!userId) {
+    return { error: "Missing or invalid API key", status: 401 };
+  }
+  return loadJobForUser(id, userId);
+}
+
+// JSON options use the same names as the upload form; nested settings and
+// lists are flattened the way the form sends them
+function optionsFormData(options: unknown): FormData {
+  const formData = new FormData();
+  if (!options || typeof options !== "object") return formData;
+
+  for (const [name, value] of Object.entries(options)) {
+    if (value === undefined || value === null) continue;
+    if (Array.isArray(value)) {
+      formData.set(name, value.map(String).join(","));
+    } else if (typeof value === "object") {
+      formData.set(name, JSON.stringify(value));
+    } else {
+      formData.set(name, String(value));
+    }
+  }
+  return formData;
+}
+
+// Reads a job request sent either as JSON ({ rows, options, ... }) or as the
+// same multipart upload the web form uses. Throws on malformed input.
+export async function parseApiJobRequest(
+  request: Request
+): Promise<ApiJobRequest> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const formData = await request.formData();
+    const { file, rows } = await parseUploadedRows(formData);
+    return {
+      fileName: file.name,
+      rows,
+      options: parseJobOptions(formData),
+      onInvalid: parseInvalidRowHandling(formData),
+    };
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || !Array.isArray(body.rows)) {
+    throw new Error('Body must be JSON with a "rows" array');
+  }
+
+  const inputForm = optionsFormData({
+    columnMap: body.columnMap,
+    onInvalid: body.onInvalid,
+  });
+  const fileName =
+    typeof body.fileName === "string" && body.fileName.trim()
+      ? body.fileName.trim()
+      : "rows.json";
+  // Rows go through the JSON input parser so column mapping and
+  // normalisation match uploaded files
+  const rows = parseSpreadsheet(
+    new TextEncoder().encode(JSON.stringify(body.rows)).buffer,
+    "rows.json",
+    parseInputOptions(inputForm)
+  );
+
+  return {
+    fileName,
+    rows,
+    options: parseJobOptions(optionsFormData(body.options)),
+    onInvalid: parseInvalidRowHandling(inputForm),
+  };
+}
+
+export function resultUrl(job: Job): string | undefined {
+  return job.downloadUrl
+    ? `/api/${API_VERSION}/jobs/${job.id}/result`
+    : undefined;
+}
+
+export function jobSummary(job: Job) {
+  const counts: Record<ProgressItem["status"], number> = {
+    pending: 0,
+    downloading: 0,
+    success: 0,
+    failed: 0,
+  };
+  // Failed rows by kind of failure; "other" covers rows the quality checks
+  // rejected and anything that couldn't be classified
+  const failures: Partial<Record<ErrorCategory | "other", number>> = {};
+  for (const item of job.progress) {
+    counts[item.status]++;
+    if (item.status === "failed") {
+      const category = item.errorCategory ?? "other";
+      failures[category] = (failures[category] ?? 0) + 1;
+    }
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    rows: {
+      total: job.progress.length,
+      ...counts,
+      // Succeeded, but the image looks like another row's
+      needsReview: job.progress.filter((item) => item.similar).length,
+      // Failed for reasons that may pass, e.g. rate limits and timeouts
+      transientFailures: job.progress.filter(
+        (item) =>
+          item.status === "failed" &&
+          item.errorCategory &&
+          isTransient(item.errorCategory)
+      ).length,
+    },
+    failures,
+    resultUrl: resultUrl(job),
+    exportLocation: job.exportLocation,
+    expiresAt: job.expiresAt,
+    duplicateImages: job.duplicateImages,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
@@ -0,0 +1,67 @@
+import type { ImageInfo } from "./imageInfo";
+import type { QualityConstraints } from "./jobs/types";
+
+// Returns why a downloaded candidate doesn't meet the job's constraints, or
+// null when it does
+export function checkImageQuality(
+  buffer: Buffer,
+  info: ImageInfo | null,
+  constraints: QualityConstraints = {}
+): string | null {
+  if (constraints.maxBytes && buffer.length > constraints.maxBytes) {
+    return `File too large (${Math.round(buffer.length / 1024)} KB)`;
+  }
+
+  const needsHeader =
+    constraints.minWidth ||
+    constraints.minHeight ||
+    constraints.minAspectRatio ||
+    constraints.maxAspectRatio ||
+    constraints.formats?.length ||
+    constraints.allowAnimated === false;
+  if (!needsHeader) {
+    return null;
+  }
+
+  if (!info) {
+    return "Not a recognised image format";
+  }
+
+  if (
+    constraints.formats?.length &&
+    !constraints.formats.includes(info.format)
+  ) {
+    return `Format ${info.format} not allowed`;
+  }
+
+  if (constraints.allowAnimated === false && info.animated) {
+    return "Animated image";
+  }
+
+  const { width, height } = info;
+  if (!width || !height) {
+    return constraints.minWidth ||
+      constraints.minHeight ||
+      constraints.minAspectRatio ||
+      constraints.maxAspectRatio
+      ? "Image dimensions unknown"
+      : null;
+  }
+
+  if (
+    (constraints.minWidth && width < constraints.minWidth) ||
+    (constraints.minHeight && height < constraints.minHeight)
+  ) {
+    return `Too small (${width}×${height})`;
+  }
+
+  const aspectRatio = width / height;
+  if (
+    (constraints.minAspectRatio && aspectRatio < constraints.minAspectRatio) ||
+    (constraints.maxAspectRatio && aspectRatio > constraints.maxAspectRatio)
+  ) {
+    return `Aspect ratio ${aspectRatio.toFixed(2)} out of range`;
+  }
+
+  return null;
+}
@@ -0,0 +1,75 @@
+import type { ImageCandidate } from "./search";
+
+// Stock sites whose search results are watermarked previews
+const WATERMARKED_DOMAINS = [
+  "shutterstock.com",
+  "alamy.com",
+  "dreamstime.com",
+  "istockphoto.com",
+  "gettyimages.com",
+  "123rf.com",
+  "depositphotos.com",
+  "stock.adobe.com",
+];
+
+export interface RankingOptions {
+  // Hosts to favour, e.g. the brand's own site
+  preferredDomains?: string[];
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+  );
+}
+
+function scoreCandidate(
+  candidate: ImageCandidate,
+  preferredDomains: string[]
+): number {
+  let score = 0;
+
+  // Megapixels, capped so a huge poster doesn't beat everything else
+  if (candidate.width && candidate.height) {
+    score += Math.min((candidate.width * candidate.height) / 1_000_000, 4) * 10;
+  } else {
+    score += 10;
+  }
+
+  if (candidate.byteSize) {
+    score += Math.min(candidate.byteSize / 500_000, 1) * 5;
+  }
+
+  let hostname = "";
+  try {
+    hostname = new URL(candidate.url).hostname.toLowerCase();
+  } catch {
+    return -Infinity;
+  }
+
+  if (matchesDomain(hostname, preferredDomains)) {
+    score += 50;
+  }
+  if (matchesDomain(hostname, WATERMARKED_DOMAINS)) {
+    score -= 50;
+  }
+
+  return score;
+}
+
+// Orders candidates by resolution, size and source domain; ties keep the
+// provider's order
+export function rankCandidates(
+  candidates: ImageCandidate[],
+  { preferredDomains = [] }: RankingOptions = {}
+): ImageCandidate[] {
+  const domains = preferredDomains.map((domain) => domain.toLowerCase());
+  return candidates
+    .map((candidate, index) => ({
+      candidate,
+      index,
+      score: scoreCandidate(candidate, domains),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,158 @@
+import axios from "axios";
+import { config } from "./config";
+
+export type ErrorCategory =
+  | "rate_limited"
+  | "timeout"
+  | "blocked"
+  | "not_found"
+  | "invalid_image"
+  // Connection failures and server errors
+  | "network";
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  "rate_limited",
+  "timeout",
+  "blocked",
+  "not_found",
+  "invalid_image",
+  "network",
+];
+
+// An error from a search or download that says what kind of failure it was
+export interface FetchError extends Error {
+  category: ErrorCategory;
+  // How long the server asked us to wait, from Retry-After
+  retryAfterMs?: number;
+}
+
+export function fetchError(
+  category: ErrorCategory,
+  message: string,
+  retryAfterMs?: number
+): FetchError {
+  return Object.assign(new Error(message), { category, retryAfterMs });
+}
+
+export function isFetchError(err: unknown): err is FetchError {
+  return err instanceof Error && "category" in err;
+}
+
+// Failures that may well go away when tried again later
+export function isTransient(category: ErrorCategory): boolean {
+  return (
+    category === "rate_limited" ||
+    category === "timeout" ||
+    category === "network"
+  );
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(
+  value: unknown,
+  now = Date.now()
+): number | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function httpError(
+  source: string,
+  status: number,
+  retryAfter?: unknown
+): FetchError {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  if (status === 429 || (status === 503 && retryAfterMs !== undefined)) {
+    return fetchError(
+      "rate_limited",
+      `${source} is rate limiting requests (HTTP ${status})`,
+      retryAfterMs
+    );
+  }
+  if (status === 401 || status === 403 || status === 451) {
+    return fetchError("blocked", `${source} refused access (HTTP ${status})`);
+  }
+  if (status === 404 || status === 410) {
+    return fetchError(
+      "not_found",
+      `${source} has no such file (HTTP ${status})`
+    );
+  }
+  if (status === 408 || status === 504) {
+    return fetchError("timeout", `${source} timed out (HTTP ${status})`);
+  }
+  return fetchError("network", `${source} responded with HTTP ${status}`);
+}
+
+const TIMEOUT_CODES = new Set(["ECONNABORTED", "ETIMEDOUT", "ERR_CANCELED"]);
+
+// Names the kind of failure behind any error thrown while fetching from
+// `source` (a provider label or host name)
+export function classifyError(err: unknown, source: string): FetchError {
+  if (axios.isAxiosError(err)) {
+    // Raised by our own checks, e.g. while resolving the host
+    if (isFetchError(err.cause)) return err.cause;
+    if (err.response) {
+      return httpError(
+        source,
+        err.response.status,
+        err.response.headers["retry-after"]
+      );
+    }
+    if (err.code && TIMEOUT_CODES.has(err.code)) {
+      return fetchError("timeout", `${source} timed out`);
+    }
+    if (err.code === "ENOTFOUND") {
+      return fetchError("not_found", `${source} does not exist`);
+    }
+    return fetchError(
+      "network",
+      `${source} could not be reached (${err.code ?? err.message})`
+    );
+  }
+  if (isFetchError(err)) return err;
+  if (err instanceof Error && err.name === "TimeoutError") {
+    return fetchError("timeout", `${source} timed out`);
+  }
+  return fetchError(
+    "network",
+    `${source} failed: ${err instanceof Error ? err.message : String(err)}`
+  );
+}
+
+// "Full jitter": a random wait up to an exponentially growing ceiling, so
+// rows that failed together don't all come back at the same moment
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    config.retryMaxDelayMs,
+    config.retryBaseDelayMs * 2 ** attempt
+  );
+  return Math.random() * ceiling;
+}
+
+// Runs `task`, trying transient failures again after a backoff or the
+// server's Retry-After. Whatever is finally thrown is a FetchError.
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  source: string
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      const error = classifyError(err, source);
+      if (!isTransient(error.category) || attempt >= config.retryAttempts) {
+        throw error;
+      }
+      const delay = error.retryAfterMs ?? backoffDelay(attempt);
+      // Not worth holding the row for a server that wants a long break
+      if (delay > config.retryMaxDelayMs) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import type { AxiosRequestConfig, LookupAddressEntry } from "axios";
+import dns from "dns";
+import net from "net";
+import type { Readable } from "stream";
+import { http, isProxyResolvedHost, proxyFor } from "./outbound";
+import { fetchError, httpError, type FetchError } from "./retry";
+
+const MAX_REDIRECTS = 5;
+
+// Addresses a download must never reach: "this" network, private ranges,
+// carrier-grade NAT, loopback, link-local (which includes cloud metadata
+// endpoints such as 169.254.169.254), benchmarking, multicast and reserved
+// space, plus their IPv6 counterparts
+const blockedRanges = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv6");
+}
+
+export interface FetchedFile {
+  buffer: Buffer;
+  contentType: string;
+  // Where the file was found after redirects
+  url: string;
+}
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are judged by their IPv4 part
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isBlockedAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function blockedError(hostname: string): FetchError {
+  return fetchError(
+    "blocked",
+    `Refusing to connect to ${hostname}: it is a private or local address`
+  );
+}
+
+// Checks the scheme and any literal IP address; host names are checked when
+// they are resolved, so DNS tricks can't slip past between check and use
+export function checkPublicUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw fetchError("not_found", "Invalid image URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw fetchError("blocked", "Only http and https URLs can be downloaded");
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    (net.isIP(hostname) && isBlockedAddress(hostname))
+  ) {
+    throw blockedError(hostname);
+  }
+  return url;
+}
+
+// DNS lookup for axios that refuses names resolving to blocked addresses
+async function publicLookup(hostname: string): Promise<[LookupAddressEntry[]]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw blockedError(hostname);
+  }
+  return [
+    addresses.map(({ address, family }) => ({
+      address,
+      family: family === 6 ? 6 : 4,
+    })),
+  ];
+}
+
+// Through a proxy the connection goes to the proxy, so the target is looked
+// up here beforehand. A name that doesn't resolve here could be an intranet
+// host the proxy knows, so it is refused unless OUTBOUND_PROXY_DNS_HOSTS
+// lists it.
+async function checkProxiedHost(hostname: string): Promise<void> {
+  try {
+    await publicLookup(hostname);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code !== "ENOTFOUND" && code !== "EAI_AGAIN") throw err;
+    if (!isProxyResolvedHost(hostname)) {
+      throw fetchError(
+        "blocked",
+        `Refusing to connect to ${hostname}: it can't be checked for a private address`
+      );
+    }
+  }
+}
+
+// Connection settings for one request (redirects not followed) that keep it
+// away from private addresses, with or without a proxy
+export async function publicRequestConfig(
+  url: URL
+): Promise<Pick<AxiosRequestConfig, "proxy" | "lookup">> {
+  const proxy = proxyFor(url.toString());
+  if (proxy) {
+    await checkProxiedHost(url.hostname);
+    return { proxy };
+  }
+  return { proxy, lookup: publicLookup };
+}
+
+function tooLargeError(maxBytes: number): FetchError {
+  return fetchError(
+    "invalid_image",
+    `File is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB limit`
+  );
+}
+
+async function readLimited(
+  stream: Readable,
+  maxBytes: number
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw tooLargeError(maxBytes);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Downloads a file from the public internet. Redirects are followed by hand
+// so every hop is checked again, and the body is streamed so an oversized
+// response is cut off instead of filling memory.
+export async function fetchPublicFile(
+  rawUrl: string,
+  {
+    maxBytes,
+    timeoutMs,
+    headers,
+  }: { maxBytes: number; timeoutMs: number; headers?: Record<string, string> }
+): Promise<FetchedFile> {
+  let url = checkPublicUrl(rawUrl);
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await http.get<Readable>(url.toString(), {
+      ...(await publicRequestConfig(url)),
+      responseType: "stream",
+      headers,
+      signal,
+      timeout: timeoutMs,
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+
+    const location = response.headers["location"];
+    if (response.status >= 300 && response.status < 400 && location) {
+      response.data.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw fetchError("blocked", `${url.hostname} redirects too often`);
+      }
+      url = checkPublicUrl(new URL(String(location), url).toString());
+      continue;
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      response.data.destroy();
+      throw httpError(
+        url.hostname,
+        response.status,
+        response.headers["retry-after"]
+      );
+    }
+
+    const declaredSize = Number(response.headers["content-length"]);
+    if (declaredSize > maxBytes) {
+      response.data.destroy();
+      throw tooLargeError(maxBytes);
+    }
+
+    return {
+      buffer: await readLimited(response.data, maxBytes),
+      contentType: String(response.headers["content-type"] ?? ""),
+      url: url.toString(),
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import * as cheerio from "cheerio";
+import { config } from "../config";
+import { createLimiter } from "../concurrency";
+import { http } from "../outbound";
+import { formatQueryString } from "./query";
+import {
+  MAX_CANDIDATES,
+  type ImageCandidate,
+  type ProviderOptions,
+  type SearchProvider,
+} from "./types";
+
+// Result tiles show the size as e.g. "1200 × 800 · jpeg"
+function parseSizeLabel(text: string): { width?: number; height?: number } {
+  const match = text.match(/(\d+)\s*[x×]\s*(\d+)/);
+  return match
+    ? { width: parseInt(match[1], 10), height: parseInt(match[2], 10) }
+    : {};
+}
+
+export function parseBingResults(html: string): ImageCandidate[] {
+  const $ = cheerio.load(html);
+  const imageUrls: ImageCandidate[] = [];
+
+  $("a.iusc").each((_, element) => {
+    try {
+      const m = $(element).attr("m");
+      if (m) {
+        const data = JSON.parse(m);
+        if (data.murl) {
+          const sizeLabel = $(element)
+            .closest("li, .imgpt")
+            .find(".img_info .nowrap")
+            .text();
+          imageUrls.push({ url: data.murl, ...parseSizeLabel(sizeLabel) });
+        }
+      }
+    } catch {
+      // Skip invalid JSON
+    }
+  });
+
+  if (imageUrls.length === 0) {
+    $("img.mimg").each((_, element) => {
+      const src = $(element).attr("src") || $(element).attr("data-src");
+      if (src && src.startsWith("http")) {
+        imageUrls.push({ url: src });
+      }
+    });
+  }
+
+  if (imageUrls.length === 0) {
+    const regex = /"murl":"(https?:\/\/[^"]+)"/g;
+    let match;
+    while ((match = regex.exec(html)) !== null) {
+      imageUrls.push({ url: match[1].replace(/\\u002f/g, "/") });
+    }
+  }
+
+  return imageUrls.slice(0, MAX_CANDIDATES);
+}
+
+export function createBingProvider({
+  baseUrl = process.env.BING_BASE_URL || "https://www.bing.com",
+}: ProviderOptions = {}): SearchProvider {
+  // Shared by every job so parallel rows don't get us blocked by Bing
+  const limiter = createLimiter({
+    concurrency: config.searchConcurrency,
+    minIntervalMs: config.searchIntervalMs,
+  });
+
+  return {
+    name: "bing",
+    label: "Bing Images",
+    isConfigured: () => true,
+    async search(query) {
+      const searchQuery = encodeURIComponent(formatQueryString(query));
+      const url = `${baseUrl}/images/search?q=${searchQuery}&first=1`;
+
+      const response = await limiter(() =>
+        http.get(url, {
+          headers: {
+            Accept:
+              "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+            "Accept-Language": "en-US,en;q=0.5",
+          },
+          timeout: 10000,
+        })
+      );
+
+      return parseBingResults(response.data);
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { config } from "../config";
+import { createLimiter } from "../concurrency";
+import { http, pickUserAgent } from "../outbound";
+import { fetchError } from "../retry";
+import { formatQueryString } from "./query";
+import {
+  MAX_CANDIDATES,
+  type ImageCandidate,
+  type ProviderOptions,
+  type SearchProvider,
+} from "./types";
+
+interface DuckDuckGoResponse {
+  results?: { image?: string; width?: number; height?: number }[];
+}
+
+// The image endpoint needs a per-query token embedded in the search page
+export function parseDuckDuckGoToken(html: string): string | null {
+  const match = html.match(/vqd=["']?([\d-]+)["'&]/);
+  return match ? match[1] : null;
+}
+
+export function parseDuckDuckGoResults(
+  data: DuckDuckGoResponse
+): ImageCandidate[] {
+  return (data.results ?? [])
+    .filter((result) => result.image?.startsWith("http"))
+    .map((result) => ({
+      url: result.image!,
+      width: result.width,
+      height: result.height,
+    }))
+    .slice(0, MAX_CANDIDATES);
+}
+
+export function createDuckDuckGoProvider({
+  baseUrl = process.env.DUCKDUCKGO_BASE_URL || "https://duckduckgo.com",
+}: ProviderOptions = {}): SearchProvider {
+  const limiter = createLimiter({
+    concurrency: config.searchConcurrency,
+    minIntervalMs: config.searchIntervalMs,
+  });
+
+  return {
+    name: "duckduckgo",
+    label: "DuckDuckGo Images",
+    isConfigured: () => true,
+    async search(query) {
+      const searchQuery = encodeURIComponent(formatQueryString(query));
+      // The token is only good for the browser that asked for it
+      const headers = {
+        "User-Agent": pickUserAgent(),
+        "Accept-Language": "en-US,en;q=0.5",
+      };
+
+      return limiter(async () => {
+        const page = await http.get(
+          `${baseUrl}/?q=${searchQuery}&iax=images&ia=images`,
+          { headers, timeout: 10000 }
+        );
+
+        const vqd = parseDuckDuckGoToken(page.data);
+        // Missing when DuckDuckGo suspects a bot
+        if (!vqd) {
+          throw fetchError("blocked", "DuckDuckGo Images refused the search");
+        }
+
+        const response = await http.get<DuckDuckGoResponse>(
+          `${baseUrl}/i.js?l=us-en&o=json&q=${searchQuery}&vqd=${vqd}&f=,,,&p=1`,
+          {
+            headers: { ...headers, Referer: `${baseUrl}/` },
+            timeout: 10000,
+          }
+        );
+
+        return parseDuckDuckGoResults(response.data);
+      });
+    },
+  };
+}
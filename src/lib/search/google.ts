@@ -0,0 +1,72 @@
+import { config } from "../config";
+import { createLimiter } from "../concurrency";
+import { http } from "../outbound";
+import {
+  MAX_CANDIDATES,
+  type ImageCandidate,
+  type ProviderOptions,
+  type SearchProvider,
+} from "./types";
+
+interface GoogleResponse {
+  items?: {
+    link?: string;
+    image?: { width?: number; height?: number; byteSize?: number };
+  }[];
+}
+
+interface GoogleProviderOptions extends ProviderOptions {
+  searchEngineId?: string;
+}
+
+export function parseGoogleResults(data: GoogleResponse): ImageCandidate[] {
+  return (data.items ?? [])
+    .filter((item) => item.link)
+    .map((item) => ({
+      url: item.link!,
+      width: item.image?.width,
+      height: item.image?.height,
+      byteSize: item.image?.byteSize,
+    }))
+    .slice(0, MAX_CANDIDATES);
+}
+
+// Google Custom Search JSON API with `searchType=image`
+export function createGoogleProvider({
+  baseUrl = process.env.GOOGLE_CSE_BASE_URL || "https://www.googleapis.com",
+  apiKey = process.env.GOOGLE_CSE_API_KEY,
+  searchEngineId = process.env.GOOGLE_CSE_ID,
+}: GoogleProviderOptions = {}): SearchProvider {
+  const limiter = createLimiter({
+    concurrency: config.searchConcurrency,
+    minIntervalMs: config.searchIntervalMs,
+  });
+
+  return {
+    name: "google",
+    label: "Google Custom Search",
+    isConfigured: () => !!apiKey && !!searchEngineId,
+    async search(query) {
+      if (!apiKey || !searchEngineId) {
+        return [];
+      }
+
+      const response = await limiter(() =>
+        http.get<GoogleResponse>(`${baseUrl}/customsearch/v1`, {
+          params: {
+            key: apiKey,
+            cx: searchEngineId,
+            q: query.text,
+            excludeTerms: query.excludeTerms.join(" ") || undefined,
+            siteSearch: query.site,
+            searchType: "image",
+            num: 10,
+          },
+          timeout: 10000,
+        })
+      );
+
+      return parseGoogleResults(response.data);
+    },
+  };
+}
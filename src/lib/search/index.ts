@@ -0,0 +1,78 @@
+import { cacheSearch, getCachedSearch } from "../cache";
+import { withRetry, type FetchError } from "../retry";
+import { createBingProvider } from "./bing";
+import { createDuckDuckGoProvider } from "./duckduckgo";
+import { createGoogleProvider } from "./google";
+import { createPexelsProvider } from "./pexels";
+import { createUnsplashProvider } from "./unsplash";
+import { formatQueryString } from "./query";
+import { createUrlListProvider } from "./urlList";
+import type { ImageCandidate, SearchProvider, SearchQuery } from "./types";
+
+export type { ImageCandidate, SearchProvider, SearchQuery } from "./types";
+export { buildSearchQuery } from "./query";
+
+export const DEFAULT_PROVIDERS = ["bing"];
+
+const providers: SearchProvider[] = [
+  createBingProvider(),
+  createDuckDuckGoProvider(),
+  createGoogleProvider(),
+  createUnsplashProvider(),
+  createPexelsProvider(),
+  createUrlListProvider(),
+];
+
+export function listProviders(): SearchProvider[] {
+  return providers;
+}
+
+export function getProvider(name: string): SearchProvider | undefined {
+  return providers.find((provider) => provider.name === name);
+}
+
+export interface SearchResult {
+  provider?: string;
+  candidates: ImageCandidate[];
+}
+
+// Tries each provider in order and returns the first non-empty result.
+// Results are reused from the cache while they are fresh. A provider that
+// keeps failing is skipped; when none found anything and one failed, that
+// failure is thrown so it isn't mistaken for "no images".
+export async function searchImages(
+  query: SearchQuery,
+  providerNames: string[] = DEFAULT_PROVIDERS
+): Promise<SearchResult> {
+  const queryKey = formatQueryString(query).toLowerCase();
+  let failure: FetchError | undefined;
+
+  for (const name of providerNames) {
+    const provider = getProvider(name);
+    if (!provider || !provider.isConfigured()) continue;
+
+    const cacheable = provider.cacheable !== false;
+    let candidates = cacheable
+      ? getCachedSearch(provider.name, queryKey)
+      : null;
+    if (!candidates) {
+      try {
+        candidates = await withRetry(
+          () => provider.search(query),
+          provider.label
+        );
+      } catch (err) {
+        console.error(`${provider.label} search error:`, err);
+        failure ??= err as FetchError;
+        continue;
+      }
+      if (cacheable) cacheSearch(provider.name, queryKey, candidates);
+    }
+    if (candidates.length > 0) {
+      return { provider: provider.name, candidates };
+    }
+  }
+
+  if (failure) throw failure;
+  return { candidates: [] };
+}
@@ -0,0 +1,74 @@
+import { config } from "../config";
+import { createLimiter } from "../concurrency";
+import { http } from "../outbound";
+import { matchesQuery } from "./query";
+import {
+  MAX_CANDIDATES,
+  type ImageCandidate,
+  type ProviderOptions,
+  type SearchProvider,
+  type SearchQuery,
+} from "./types";
+
+interface PexelsResponse {
+  photos?: {
+    width?: number;
+    height?: number;
+    url?: string;
+    alt?: string | null;
+    src?: { original?: string; large2x?: string };
+  }[];
+}
+
+// The API has no exclusion or site operators, so those are applied to the
+// results here
+export function parsePexelsResults(
+  data: PexelsResponse,
+  query: SearchQuery
+): ImageCandidate[] {
+  return (data.photos ?? [])
+    .filter((photo) => photo.src?.original)
+    .filter((photo) =>
+      matchesQuery(query, {
+        urls: [photo.src?.original, photo.url],
+        text: photo.alt,
+      })
+    )
+    .map((photo) => ({
+      url: photo.src!.original!,
+      width: photo.width,
+      height: photo.height,
+    }))
+    .slice(0, MAX_CANDIDATES);
+}
+
+export function createPexelsProvider({
+  baseUrl = process.env.PEXELS_BASE_URL || "https://api.pexels.com",
+  apiKey = process.env.PEXELS_API_KEY,
+}: ProviderOptions = {}): SearchProvider {
+  const limiter = createLimiter({
+    concurrency: config.searchConcurrency,
+    minIntervalMs: config.searchIntervalMs,
+  });
+
+  return {
+    name: "pexels",
+    label: "Pexels",
+    isConfigured: () => !!apiKey,
+    async search(query) {
+      if (!apiKey) {
+        return [];
+      }
+
+      const response = await limiter(() =>
+        http.get<PexelsResponse>(`${baseUrl}/v1/search`, {
+          params: { query: query.text, per_page: 10 },
+          headers: { Authorization: apiKey },
+          timeout: 10000,
+        })
+      );
+
+      return parsePexelsResults(response.data, query);
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { ExcelRow } from "../jobs/types";
+import type { SearchQuery } from "./types";
+
+// Builds the search from a row's optional override columns, falling back to
+// the exact image_name text (no suffix)
+export function buildSearchQuery(row: ExcelRow): SearchQuery {
+  const text = String(row.search_query || row.image_name)
+    .replace(/[/\\]/g, " ")
+    .trim();
+
+  const excludeTerms = String(row.exclude_terms ?? "")
+    .split(/[,;]/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+
+  const site = String(row.site ?? "")
+    .trim()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "");
+
+  return { text, excludeTerms, site: site || undefined };
+}
+
+// Query string with operators for engines that understand them
+export function formatQueryString(query: SearchQuery): string {
+  const parts = [query.text];
+  for (const term of query.excludeTerms) {
+    parts.push(term.includes(" ") ? `-"${term}"` : `-${term}`);
+  }
+  if (query.site) {
+    parts.push(`site:${query.site}`);
+  }
+  return parts.join(" ");
+}
+
+// For APIs without operators: whether a result is on the row's site, judged
+// by its URLs, and its description names none of the excluded terms
+export function matchesQuery(
+  query: SearchQuery,
+  { urls, text }: { urls: (string | undefined)[]; text?: string | null }
+): boolean {
+  const { site } = query;
+  if (site) {
+    const onSite = urls.some((url) => {
+      try {
+        const hostname = new URL(url ?? "").hostname;
+        return hostname === site || hostname.endsWith(`.${site}`);
+      } catch {
+        return false;
+      }
+    });
+    if (!onSite) return false;
+  }
+
+  const description = (text ?? "").toLowerCase();
+  return !query.excludeTerms.some((term) =>
+    description.includes(term.toLowerCase())
+  );
+}
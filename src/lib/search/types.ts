@@ -0,0 +1,33 @@
+export interface SearchQuery {
+  text: string;
+  excludeTerms: string[];
+  // Restrict results to this domain
+  site?: string;
+}
+
+// Enough to rank and fall back through when saving several images per row
+export const MAX_CANDIDATES = 10;
+
+export interface ImageCandidate {
+  url: string;
+  // Whatever the provider reports up front, before anything is downloaded
+  width?: number;
+  height?: number;
+  byteSize?: number;
+}
+
+export interface SearchProvider {
+  name: string;
+  label: string;
+  // False when the provider needs credentials that aren't set
+  isConfigured(): boolean;
+  // False for local lookups, which are cheap and should see edits at once
+  cacheable?: boolean;
+  search(query: SearchQuery): Promise<ImageCandidate[]>;
+}
+
+export interface ProviderOptions {
+  // Overridable so providers can be pointed at a local stand-in server
+  baseUrl?: string;
+  apiKey?: string;
+}
@@ -0,0 +1,75 @@
+import { config } from "../config";
+import { createLimiter } from "../concurrency";
+import { http } from "../outbound";
+import { matchesQuery } from "./query";
+import {
+  MAX_CANDIDATES,
+  type ImageCandidate,
+  type ProviderOptions,
+  type SearchProvider,
+  type SearchQuery,
+} from "./types";
+
+interface UnsplashResponse {
+  results?: {
+    width?: number;
+    height?: number;
+    description?: string | null;
+    alt_description?: string | null;
+    urls?: { full?: string; regular?: string };
+    links?: { html?: string };
+  }[];
+}
+
+// The API has no exclusion or site operators, so those are applied to the
+// results here
+export function parseUnsplashResults(
+  data: UnsplashResponse,
+  query: SearchQuery
+): ImageCandidate[] {
+  return (data.results ?? [])
+    .filter((result) => result.urls?.full || result.urls?.regular)
+    .filter((result) =>
+      matchesQuery(query, {
+        urls: [result.urls?.full, result.urls?.regular, result.links?.html],
+        text: [result.description, result.alt_description].join(" "),
+      })
+    )
+    .map((result) => ({
+      url: (result.urls?.full || result.urls?.regular)!,
+      width: result.width,
+      height: result.height,
+    }))
+    .slice(0, MAX_CANDIDATES);
+}
+
+export function createUnsplashProvider({
+  baseUrl = process.env.UNSPLASH_BASE_URL || "https://api.unsplash.com",
+  apiKey = process.env.UNSPLASH_ACCESS_KEY,
+}: ProviderOptions = {}): SearchProvider {
+  const limiter = createLimiter({
+    concurrency: config.searchConcurrency,
+    minIntervalMs: config.searchIntervalMs,
+  });
+
+  return {
+    name: "unsplash",
+    label: "Unsplash",
+    isConfigured: () => !!apiKey,
+    async search(query) {
+      if (!apiKey) {
+        return [];
+      }
+
+      const response = await limiter(() =>
+        http.get<UnsplashResponse>(`${baseUrl}/search/photos`, {
+          params: { query: query.text, per_page: 10 },
+          headers: { Authorization: `Client-ID ${apiKey}` },
+          timeout: 10000,
+        })
+      );
+
+      return parseUnsplashResults(response.data, query);
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import fs from "fs";
+import type { SearchProvider } from "./types";
+
+interface UrlListOptions {
+  filePath?: string;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Accepts either a JSON object ({ "name": "url" | ["url", ...] }) or
+// plain text with one "name,url" pair per line
+export function parseUrlList(content: string): Map<string, string[]> {
+  const urls = new Map<string, string[]>();
+  const add = (name: string, url: string) => {
+    const key = normalizeName(name);
+    urls.set(key, [...(urls.get(key) ?? []), url.trim()]);
+  };
+
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) {
+    const data = JSON.parse(trimmed) as Record<string, string | string[]>;
+    for (const [name, value] of Object.entries(data)) {
+      for (const url of Array.isArray(value) ? value : [value]) {
+        add(name, url);
+      }
+    }
+    return urls;
+  }
+
+  for (const line of trimmed.split(/\r?\n/)) {
+    const separator = line.lastIndexOf(",");
+    if (separator === -1) continue;
+    const url = line.slice(separator + 1);
+    if (url.trim().startsWith("http")) {
+      add(line.slice(0, separator), url);
+    }
+  }
+  return urls;
+}
+
+// Looks names up in a server-side list of known image URLs
+export function createUrlListProvider({
+  filePath = process.env.IMAGE_URL_LIST,
+}: UrlListOptions = {}): SearchProvider {
+  let cached: { mtimeMs: number; urls: Map<string, string[]> } | null = null;
+
+  const load = (): Map<string, string[]> => {
+    if (!filePath || !fs.existsSync(filePath)) {
+      return new Map();
+    }
+
+    // Re-read only when the file changes
+    const { mtimeMs } = fs.statSync(filePath);
+    if (!cached || cached.mtimeMs !== mtimeMs) {
+      cached = {
+        mtimeMs,
+        urls: parseUrlList(fs.readFileSync(filePath, "utf-8")),
+      };
+    }
+    return cached.urls;
+  };
+
+  return {
+    name: "url-list",
+    label: "Local URL list",
+    isConfigured: () => !!filePath && fs.existsSync(filePath),
+    cacheable: false,
+    async search(query) {
+      try {
+        const urls = load().get(normalizeName(query.text)) ?? [];
+        return urls.map((url) => ({ url }));
+      } catch (error) {
+        console.error("URL list error:", error);
+        return [];
+      }
+    },
+  };
+}
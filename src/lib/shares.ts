@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { prisma } from "./prisma";
+import { readJob } from "./jobs/store";
+
+const HOUR_MS = 3600 * 1000;
+// Longest a share link may live, in hours
+export const MAX_SHARE_HOURS = 24 * 30;
+
+export interface ShareInfo {
+  downloadId: string;
+  fileName: string;
+  url: string;
+  expiresAt: string;
+  maxDownloads: number | null;
+  downloads: number;
+}
+
+export function shareUrl(token: string): string {
+  return `/api/share/${token}`;
+}
+
+// Creates (or replaces) the share link of one of the user's downloads. The
+// link never outlives the archive it points to.
+export async function createShare(
+  userId: string,
+  downloadId: string,
+  { hours, maxDownloads }: { hours: number; maxDownloads?: number }
+): Promise<ShareInfo | { error: string; status: number }> {
+  const download = await prisma.download.findFirst({
+    where: { id: downloadId, userId },
+  });
+  const job = download ? readJob(download.id) : null;
+  if (!download || !job) {
+    return { error: "Download not found", status: 404 };
+  }
+  if (!job.downloadUrl) {
+    return {
+      error: "Only archives kept for download can be shared",
+      status: 409,
+    };
+  }
+
+  const archiveExpiry = job.expiresAt
+    ? new Date(job.expiresAt).getTime()
+    : Infinity;
+  const expiresAt = new Date(
+    Math.min(
+      Date.now() + Math.min(hours, MAX_SHARE_HOURS) * HOUR_MS,
+      archiveExpiry
+    )
+  );
+  if (expiresAt.getTime() <= Date.now()) {
+    return { error: "This download has expired", status: 410 };
+  }
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  const updated = await prisma.download.update({
+    where: { id: download.id },
+    data: {
+      shareToken: token,
+      shareExpiry: expiresAt,
+      shareMaxDownloads: maxDownloads ?? null,
+      shareDownloads: 0,
+    },
+  });
+
+  return {
+    downloadId: updated.id,
+    fileName: updated.fileName,
+    url: shareUrl(token),
+    expiresAt: expiresAt.toISOString(),
+    maxDownloads: updated.shareMaxDownloads,
+    downloads: 0,
+  };
+}
+
+export async function revokeShare(
+  userId: string,
+  downloadId: string
+): Promise<boolean> {
+  const { count } = await prisma.download.updateMany({
+    where: { id: downloadId, userId, shareToken: { not: null } },
+    data: { shareToken: null, shareExpiry: null, shareMaxDownloads: null },
+  });
+  return count > 0;
+}
+
+export async function listShares(userId: string): Promise<ShareInfo[]> {
+  const downloads = await prisma.download.findMany({
+    where: {
+      userId,
+      shareToken: { not: null },
+      shareExpiry: { gt: new Date() },
+    },
+    orderBy: { shareExpiry: "asc" },
+  });
+
+  return downloads
+    .filter(
+      (download) =>
+        download.shareMaxDownloads === null ||
+        download.shareDownloads < download.shareMaxDownloads
+    )
+    .map((download) => ({
+      downloadId: download.id,
+      fileName: download.fileName,
+      url: shareUrl(download.shareToken!),
+      expiresAt: download.shareExpiry!.toISOString(),
+      maxDownloads: download.shareMaxDownloads,
+      downloads: download.shareDownloads,
+    }));
+}
+
+// Resolves a share token to its job, counting the download when `count` is
+// set. Returns null for unknown, revoked, expired or used-up links.
+export async function redeemShare(
+  token: string,
+  { count }: { count: boolean }
+): Promise<{ jobId: string } | null> {
+  const download = await prisma.download.findUnique({
+    where: { shareToken: token },
+  });
+  if (!download?.shareExpiry || download.shareExpiry.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const limit = download.shareMaxDownloads;
+  if (limit !== null && download.shareDownloads >= limit) {
+    return null;
+  }
+
+  if (count) {
+    // Conditional update so parallel requests can't exceed the limit
+    const { count: updated } = await prisma.download.updateMany({
+      where: {
+        id: download.id,
+        shareToken: token,
+        ...(limit !== null ? { shareDownloads: { lt: limit } } : {}),
+      },
+      data: { shareDownloads: { increment: 1 } },
+    });
+    if (updated === 0) return null;
+  }
+
+  return { jobId: download.id };
+}
@@ -0,0 +1,250 @@
+import * as XLSX from "xlsx";
+import type { ExcelRow } from "./jobs/types";
+
+export type InputFormat = "xlsx" | "csv" | "tsv" | "json" | "ndjson";
+
+export const ROW_FIELDS = [
+  "id",
+  "image_name",
+  "image_url",
+  "search_query",
+  "exclude_terms",
+  "site",
+  "provider",
+  "group",
+] as const;
+
+type RowField = (typeof ROW_FIELDS)[number];
+
+export interface InputOptions {
+  // Workbook sheet to read; defaults to the first one
+  sheet?: string;
+  // Source header → row field, e.g. { "SKU": "id" }
+  columnMap?: Record<string, string>;
+}
+
+export interface InputSummary {
+  format: InputFormat;
+  sheets: string[];
+  sheet?: string;
+  headers: string[];
+  // Row field → source header, guessed from the header names
+  suggestedMap: Record<string, string>;
+  rowCount: number;
+}
+
+type InputRecord = Record<string, unknown>;
+
+export function detectFormat(fileName: string): InputFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "csv":
+      return "csv";
+    case "tsv":
+    case "tab":
+      return "tsv";
+    case "json":
+      return "json";
+    case "ndjson":
+    case "jsonl":
+      return "ndjson";
+    default:
+      return "xlsx";
+  }
+}
+
+// "Image Name" and "image-name" both match the image_name field
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// Entries that aren't objects (e.g. null) become empty rows, which
+// validation reports like any other bad row
+function asRecord(value: unknown): InputRecord {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as InputRecord)
+    : {};
+}
+
+function parseJsonRecords(text: string): InputRecord[] {
+  const data = JSON.parse(text);
+  const records = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(records)) {
+    throw new Error("JSON input must be an array of rows or { rows: [...] }");
+  }
+  return records.map(asRecord);
+}
+
+function parseNdjsonRecords(text: string): InputRecord[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return asRecord(JSON.parse(line));
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1}`);
+      }
+    });
+}
+
+function readRecords(
+  arrayBuffer: ArrayBuffer,
+  format: InputFormat,
+  sheet?: string
+): { records: InputRecord[]; sheets: string[]; sheet?: string } {
+  if (format === "json" || format === "ndjson") {
+    const text = new TextDecoder().decode(arrayBuffer);
+    const records =
+      format === "json" ? parseJsonRecords(text) : parseNdjsonRecords(text);
+    return { records, sheets: [] };
+  }
+
+  // Text formats keep cell values as written so IDs like "001" survive
+  const workbook =
+    format === "xlsx"
+      ? XLSX.read(arrayBuffer, { type: "array" })
+      : XLSX.read(new TextDecoder().decode(arrayBuffer), {
+          type: "string",
+          raw: true,
+          FS: format === "tsv" ? "\t" : ",",
+        });
+
+  const sheetName = sheet ?? workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  return {
+    // Blank cells come through as "" so every row has every column
+    records: XLSX.utils.sheet_to_json(worksheet, { defval: "" }),
+    sheets: format === "xlsx" ? workbook.SheetNames : [],
+    sheet: format === "xlsx" ? sheetName : undefined,
+  };
+}
+
+function collectHeaders(records: InputRecord[]): string[] {
+  const headers = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      headers.add(key);
+    }
+  }
+  return [...headers];
+}
+
+function isRowField(field: string): field is RowField {
+  return (ROW_FIELDS as readonly string[]).includes(field);
+}
+
+function suggestColumnMap(headers: string[]): Record<string, string> {
+  const suggested: Record<string, string> = {};
+  for (const header of headers) {
+    const field = normalizeHeader(header);
+    if (isRowField(field)) {
+      suggested[field] ??= header;
+    }
+  }
+  return suggested;
+}
+
+// Row fields the headers provide once the column mapping is applied
+function mappedFields(
+  headers: string[],
+  columnMap: Record<string, string>
+): Set<string> {
+  const fields = new Set<string>();
+  for (const header of headers) {
+    const field =
+      header in columnMap ? columnMap[header] : normalizeHeader(header);
+    if (isRowField(field)) {
+      fields.add(field);
+    }
+  }
+  return fields;
+}
+
+// Explicitly mapped headers win over headers that merely look like a field
+function applyColumnMap(
+  record: InputRecord,
+  columnMap: Record<string, string>
+): ExcelRow {
+  const values = new Map<RowField, unknown>();
+
+  for (const [header, value] of Object.entries(record)) {
+    const field = columnMap[header];
+    if (field && isRowField(field)) {
+      values.set(field, value);
+    }
+  }
+
+  for (const [header, value] of Object.entries(record)) {
+    const field = normalizeHeader(header);
+    if (!(header in columnMap) && isRowField(field) && !values.has(field)) {
+      values.set(field, value);
+    }
+  }
+
+  // Cells hold numbers, booleans and the like too; ids keep their numbers
+  const text = (field: RowField) => {
+    const value = values.get(field);
+    return value === undefined || value === null ? undefined : String(value);
+  };
+  const id = values.get("id");
+  return {
+    id: typeof id === "number" ? id : text("id") ?? "",
+    image_name: text("image_name") ?? "",
+    image_url: text("image_url"),
+    search_query: text("search_query"),
+    exclude_terms: text("exclude_terms"),
+    site: text("site"),
+    provider: text("provider"),
+    group: text("group"),
+  };
+}
+
+// Lists sheets and headers so the user can pick a sheet and map columns
+export function inspectInput(
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  sheet?: string
+): InputSummary {
+  const format = detectFormat(fileName);
+  const result = readRecords(arrayBuffer, format, sheet);
+  const headers = collectHeaders(result.records);
+
+  return {
+    format,
+    sheets: result.sheets,
+    sheet: result.sheet,
+    headers,
+    suggestedMap: suggestColumnMap(headers),
+    rowCount: result.records.length,
+  };
+}
+
+export function parseSpreadsheet(
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  { sheet, columnMap = {} }: InputOptions = {}
+): ExcelRow[] {
+  const { records } = readRecords(arrayBuffer, detectFormat(fileName), sheet);
+  if (records.length === 0) {
+    throw new Error("File is empty");
+  }
+
+  // Checked across all rows; blank values are left to the validation report
+  const fields = mappedFields(collectHeaders(records), columnMap);
+  if (!fields.has("id") || !fields.has("image_name")) {
+    throw new Error(
+      'File must have "id" and "image_name" columns, or a column mapping for them'
+    );
+  }
+
+  return records.map((record) => applyColumnMap(record, columnMap));
+}
@@ -0,0 +1,130 @@
+import { getProvider } from "./search";
+import type { ExcelRow } from "./jobs/types";
+
+export interface ValidationIssue {
+  // 1-based position among the data rows
+  row: number;
+  id: string;
+  field: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ValidationReport {
+  rowCount: number;
+  validCount: number;
+  // 1-based rows with at least one error
+  invalidRows: number[];
+  issues: ValidationIssue[];
+}
+
+// What to do with rows that fail validation when creating a job
+export type InvalidRowHandling = "reject" | "skip" | "proceed";
+
+const ILLEGAL_FILE_CHARS = /[<>:"/\\|?*\u0000-\u001f]/;
+const RESERVED_FILE_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+// Used for the file written for each row, whatever validation decided
+export function toSafeFileName(id: string): string {
+  const safe = id
+    .replace(new RegExp(ILLEGAL_FILE_CHARS, "g"), "_")
+    .replace(/[. ]+$/, "");
+  return RESERVED_FILE_NAMES.test(safe) ? `_${safe}` : safe || "_";
+}
+
+export function validateRows(rows: ExcelRow[]): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  // Compared case-insensitively since archives get unzipped on
+  // case-insensitive file systems too
+  const firstRowById = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const id = isBlank(row.id) ? "" : String(row.id).trim();
+    const addIssue = (
+      field: string,
+      message: string,
+      severity: ValidationIssue["severity"] = "error"
+    ) => issues.push({ row: rowNumber, id, field, severity, message });
+
+    if (Object.values(row).every(isBlank)) {
+      addIssue("id", "Row is empty or not an object");
+      return;
+    }
+
+    if (!id) {
+      addIssue("id", "ID is blank");
+    } else {
+      if (ILLEGAL_FILE_CHARS.test(id)) {
+        addIssue(
+          "id",
+          'ID contains characters not allowed in file names (<>:"/\\|?*)'
+        );
+      } else if (RESERVED_FILE_NAMES.test(id) || /[. ]$/.test(id)) {
+        addIssue("id", "ID is not a valid file name");
+      }
+
+      const key = id.toLowerCase();
+      const firstRow = firstRowById.get(key);
+      if (firstRow !== undefined) {
+        addIssue("id", `Duplicate ID (first used on row ${firstRow})`);
+      } else {
+        firstRowById.set(key, rowNumber);
+      }
+    }
+
+    if (
+      isBlank(row.image_name) &&
+      isBlank(row.search_query) &&
+      isBlank(row.image_url)
+    ) {
+      addIssue("image_name", "Image name is blank");
+    }
+
+    if (!isBlank(row.image_url)) {
+      try {
+        const { protocol } = new URL(String(row.image_url).trim());
+        if (protocol !== "http:" && protocol !== "https:") {
+          addIssue("image_url", "Image URL must use http or https");
+        }
+      } catch {
+        addIssue("image_url", "Image URL is not a valid URL");
+      }
+    }
+
+    if (!isBlank(row.provider) && !getProvider(String(row.provider).trim())) {
+      addIssue(
+        "provider",
+        `Unknown provider "${row.provider}"; the job's providers will be used`,
+        "warning"
+      );
+    }
+  });
+
+  const invalidRows = [
+    ...new Set(
+      issues
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => issue.row)
+    ),
+  ];
+
+  return {
+    rowCount: rows.length,
+    validCount: rows.length - invalidRows.length,
+    invalidRows,
+    issues,
+  };
+}
+
+export function dropInvalidRows(
+  rows: ExcelRow[],
+  report: ValidationReport
+): ExcelRow[] {
+  const invalid = new Set(report.invalidRows);
+  return rows.filter((_, index) => !invalid.has(index + 1));
+}
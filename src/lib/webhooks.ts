@@ -0,0 +1,395 @@
+import crypto from "crypto";
+import type { WebhookDelivery } from "@prisma/client";
+import { serviceHttp } from "./outbound";
+import { prisma } from "./prisma";
+import { checkPublicUrl, publicRequestConfig } from "./safeFetch";
+import type { Job } from "./jobs/types";
+
+export type WebhookEvent =
+  | "job.completed"
+  | "job.review"
+  | "job.failed"
+  | "job.failure_threshold";
+
+// Seconds to wait after each failed attempt; a delivery is given up once
+// they run out
+const RETRY_DELAYS = [30, 120, 600, 1800, 7200];
+const POLL_INTERVAL_MS = 15 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Receivers on loopback or private addresses are refused unless allowed,
+// so webhooks can't be used to probe the server's network
+const ALLOW_PRIVATE_RECEIVERS =
+  process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+export interface WebhookInfo {
+  id: string;
+  url: string;
+  failureThreshold: number | null;
+  createdAt: string;
+}
+
+export interface DeliveryInfo {
+  id: string;
+  jobId: string;
+  url: string;
+  event: string;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WebhookTarget {
+  url: string;
+  failureThreshold?: number;
+}
+
+const globalForWebhooks = globalThis as unknown as {
+  webhookTimer?: NodeJS.Timeout;
+  webhooksDelivering?: boolean;
+  // Pending failure threshold check per job id
+  thresholdChecks?: Map<string, Promise<void>>;
+};
+
+const thresholdChecks =
+  globalForWebhooks.thresholdChecks ?? new Map<string, Promise<void>>();
+globalForWebhooks.thresholdChecks = thresholdChecks;
+
+// Only http(s) URLs can receive webhooks
+export function parseWebhookUrl(value: unknown): string | null {
+  try {
+    const url = new URL(String(value ?? "").trim());
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Links in payloads are absolute when APP_URL (or AUTH_URL) is set
+function appUrl(path: string): string {
+  const base = process.env.APP_URL || process.env.AUTH_URL;
+  return base ? new URL(path, base).toString() : path;
+}
+
+export function jobCounts(job: Job) {
+  return {
+    totalCount: job.progress.length,
+    completedCount: job.progress.filter((item) => item.status === "success")
+      .length,
+    failedCount: job.progress.filter((item) => item.status === "failed").length,
+    needsReviewCount: job.progress.filter((item) => item.similar).length,
+  };
+}
+
+function buildPayload(job: Job, event: WebhookEvent) {
+  return {
+    event,
+    createdAt: new Date().toISOString(),
+    job: {
+      id: job.id,
+      status: job.status,
+      fileName: job.fileName,
+      ...jobCounts(job),
+      downloadUrl: job.downloadUrl ? appUrl(job.downloadUrl) : undefined,
+      // Same file, for API key holders
+      resultUrl: job.downloadUrl
+        ? appUrl(`/api/v1/jobs/${job.id}/result`)
+        : undefined,
+      exportLocation: job.exportLocation,
+      expiresAt: job.expiresAt,
+      error: job.error,
+    },
+  };
+}
+
+// Receivers recompute this over "<timestamp>.<raw body>" with their secret
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+export async function getWebhookSecret(userId: string): Promise<string> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { webhookSecret: true },
+  });
+  return user.webhookSecret ?? rotateWebhookSecret(userId);
+}
+
+export async function rotateWebhookSecret(userId: string): Promise<string> {
+  const secret = `whsec_${crypto.randomBytes(32).toString("base64url")}`;
+  await prisma.user.update({
+    where: { id: userId },
+    data: { webhookSecret: secret },
+  });
+  return secret;
+}
+
+export async function createWebhook(
+  userId: string,
+  url: string,
+  failureThreshold?: number
+): Promise<WebhookInfo> {
+  const webhook = await prisma.webhook.create({
+    data: { userId, url, failureThreshold },
+  });
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    failureThreshold: webhook.failureThreshold,
+    createdAt: webhook.createdAt.toISOString(),
+  };
+}
+
+export async function listWebhooks(userId: string): Promise<WebhookInfo[]> {
+  const webhooks = await prisma.webhook.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+  return webhooks.map((webhook) => ({
+    id: webhook.id,
+    url: webhook.url,
+    failureThreshold: webhook.failureThreshold,
+    createdAt: webhook.createdAt.toISOString(),
+  }));
+}
+
+export async function deleteWebhook(
+  userId: string,
+  webhookId: string
+): Promise<boolean> {
+  const { count } = await prisma.webhook.deleteMany({
+    where: { id: webhookId, userId },
+  });
+  return count > 0;
+}
+
+export async function listDeliveries(
+  userId: string,
+  { jobId, take = 50 }: { jobId?: string; take?: number } = {}
+): Promise<DeliveryInfo[]> {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { userId, ...(jobId ? { jobId } : {}) },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+  return deliveries.map((delivery) => ({
+    id: delivery.id,
+    jobId: delivery.jobId,
+    url: delivery.url,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+    updatedAt: delivery.updatedAt.toISOString(),
+  }));
+}
+
+// The owner's account webhooks plus the job's own webhook URL
+async function webhookTargets(job: Job): Promise<WebhookTarget[]> {
+  const targets: WebhookTarget[] = (
+    await prisma.webhook.findMany({ where: { userId: job.ownerId } })
+  ).map((webhook) => ({
+    url: webhook.url,
+    failureThreshold: webhook.failureThreshold ?? undefined,
+  }));
+
+  if (job.options.webhookUrl) {
+    targets.push({
+      url: job.options.webhookUrl,
+      failureThreshold: job.options.webhookFailureThreshold,
+    });
+  }
+  return targets;
+}
+
+// Queues a delivery of the event to each of the job's webhooks and starts
+// sending. Never throws; webhook problems must not affect the job.
+export async function notifyJob(job: Job, event: WebhookEvent): Promise<void> {
+  if (!job.ownerId) return;
+  if (event !== "job.failure_threshold") {
+    // Threshold checks still running go out first
+    await thresholdChecks.get(job.id);
+    return queueDeliveries(job, event);
+  }
+
+  // Rows failing at the same moment would otherwise both find the threshold
+  // not yet notified, so one job's checks run one after another
+  const check = (thresholdChecks.get(job.id) ?? Promise.resolve()).then(() =>
+    queueDeliveries(job, event)
+  );
+  thresholdChecks.set(job.id, check);
+  await check;
+  if (thresholdChecks.get(job.id) === check) {
+    thresholdChecks.delete(job.id);
+  }
+}
+
+async function queueDeliveries(job: Job, event: WebhookEvent): Promise<void> {
+  try {
+    let targets = await webhookTargets(job);
+
+    // Sent once per job and URL, when the failed share reaches the threshold
+    if (event === "job.failure_threshold") {
+      const { totalCount, failedCount } = jobCounts(job);
+      const failedPercent = (failedCount / Math.max(totalCount, 1)) * 100;
+      const notified = await prisma.webhookDelivery.findMany({
+        where: { jobId: job.id, event },
+        select: { url: true },
+      });
+      targets = targets.filter(
+        (target) =>
+          target.failureThreshold !== undefined &&
+          failedPercent >= target.failureThreshold &&
+          !notified.some((delivery) => delivery.url === target.url)
+      );
+    }
+    if (targets.length === 0) return;
+
+    const payload = buildPayload(job, event);
+    await prisma.webhookDelivery.createMany({
+      data: targets.map((target) => ({
+        userId: job.ownerId!,
+        jobId: job.id,
+        url: target.url,
+        event,
+        payload,
+      })),
+    });
+    void deliverDueWebhooks();
+  } catch (err) {
+    console.error(`Failed to queue ${event} webhooks for job ${job.id}:`, err);
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const secret = await getWebhookSecret(delivery.userId);
+  const body = JSON.stringify({
+    id: delivery.id,
+    ...(delivery.payload as object),
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const connection = ALLOW_PRIVATE_RECEIVERS
+      ? {}
+      : await publicRequestConfig(checkPublicUrl(delivery.url));
+    const response = await serviceHttp.post(delivery.url, body, {
+      ...connection,
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "image-downloader-webhooks",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Signature": `t=${timestamp},v1=${signPayload(
+          secret,
+          timestamp,
+          body
+        )}`,
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      responseType: "text",
+      validateStatus: () => true,
+    });
+    responseStatus = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      error = `Receiver responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  await recordAttempt(delivery, responseStatus, error);
+}
+
+// Marks the delivery delivered, or schedules the next retry until none are
+// left
+async function recordAttempt(
+  delivery: WebhookDelivery,
+  responseStatus: number | null,
+  error: string | null
+): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  const retryDelay = error ? RETRY_DELAYS[attempts - 1] : undefined;
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      responseStatus,
+      error,
+      status: !error
+        ? "delivered"
+        : retryDelay === undefined
+        ? "failed"
+        : "pending",
+      nextAttemptAt:
+        retryDelay !== undefined
+          ? new Date(Date.now() + retryDelay * 1000)
+          : null,
+    },
+  });
+}
+
+// Sends deliveries that are due, one at a time
+export async function deliverDueWebhooks(): Promise<void> {
+  if (globalForWebhooks.webhooksDelivering) return;
+  globalForWebhooks.webhooksDelivering = true;
+
+  try {
+    for (;;) {
+      const due = await prisma.webhookDelivery.findMany({
+        where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: "asc" },
+        take: 20,
+      });
+      if (due.length === 0) break;
+
+      for (const delivery of due) {
+        // A delivery that can't even be attempted, e.g. because its owner
+        // is gone, counts as a failed attempt so it doesn't hold up the rest.
+        // If that can't be recorded either, the run stops.
+        try {
+          await attemptDelivery(delivery);
+        } catch (err) {
+          console.error(`Webhook delivery ${delivery.id} failed:`, err);
+          await recordAttempt(
+            delivery,
+            null,
+            err instanceof Error ? err.message : "Delivery failed"
+          );
+        }
+      }
+    }
+  } catch (err) {
+    console.error("Webhook delivery failed:", err);
+  } finally {
+    globalForWebhooks.webhooksDelivering = false;
+  }
+}
+
+export function startWebhookDelivery(): void {
+  if (globalForWebhooks.webhookTimer) return;
+
+  globalForWebhooks.webhookTimer = setInterval(
+    () => void deliverDueWebhooks(),
+    POLL_INTERVAL_MS
+  );
+  globalForWebhooks.webhookTimer.unref();
+}